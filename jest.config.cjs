@@ -1,6 +1,6 @@
 module.exports = {
     preset: 'ts-jest',
-    testEnvironment: 'jsdom',
+    testEnvironment: 'node',
     roots: ['<rootDir>/src/', '<rootDir>/tests/'],
     moduleNameMapper: {
       '^@/(.*)$': '<rootDir>/src/$1',
@@ -1,14 +1,15 @@
 import * as THREE from 'three';
-import { ShapeSystem, LimbPositions, Point } from '../rendering/ShapeSystem';
-
-// Define trick types
-export interface Trick {
-  type: string;
-  rotation: number;
-  shape?: string;
-  difficultyMultiplier: number;
-}
-
+import {
+  ShapeSystem,
+  Point,
+  LimbPositions,
+} from '../rendering/ShapeSystem';
+import { CharacterSimulation } from '../simulation/CharacterSimulation';
+import { LimbPose } from '../simulation/LimbDynamics';
+
+/**
+ * Three.js view of a CharacterSimulation
+ */
 export class Character {
   private scene: THREE.Scene;
   private group: THREE.Group;
@@ -22,37 +23,19 @@ export class Character {
 
   // Shape system for freeform control
   private shapeSystem: ShapeSystem;
-  private customLimbPositions: LimbPositions | null = null;
-  private isUsingCustomShape: boolean = false;
-
-  // Physics properties
-  private position: THREE.Vector3;
-  private velocity: THREE.Vector3;
-  private rotation: THREE.Euler;
-  private rotationSpeed: number;
-  // Used for future features
-  private readonly targetRotation: THREE.Euler;
-  private currentShape: string;
-  private lastRotation: number;
-  private rotationTotal: number;
-  private isInAir: boolean;
-  private currentTrick: Trick | null;
-
-  constructor(scene: THREE.Scene) {
+
+  // Physics state this view renders
+  private state: CharacterSimulation;
+  private renderedShapeVersion: number;
+
+  constructor(scene: THREE.Scene, state: CharacterSimulation) {
     this.scene = scene;
+    this.state = state;
+    this.renderedShapeVersion = state.getShapeVersion();
 
-    // Initialize character group
+    // Initialize character group, twisting before somersaulting like the simulation
     this.group = new THREE.Group();
-    this.position = new THREE.Vector3(0, 5, 0);
-    this.velocity = new THREE.Vector3(0, 0, 0);
-    this.rotation = new THREE.Euler(0, 0, 0);
-    this.rotationSpeed = 0;
-    this.targetRotation = new THREE.Euler(0, 0, 0);
-    this.currentShape = 'straight';
-    this.lastRotation = 0;
-    this.rotationTotal = 0;
-    this.isInAir = true;
-    this.currentTrick = null;
+    this.group.rotation.order = 'ZYX';
 
     // Initialize shape system
     this.shapeSystem = new ShapeSystem(scene);
@@ -65,7 +48,7 @@ export class Character {
     this.createBody();
 
     // Position the character
-    this.group.position.copy(this.position);
+    this.group.position.copy(this.state.getPosition());
 
     // Add character to scene
     this.scene.add(this.group);
@@ -100,22 +83,23 @@ export class Character {
     this.torso.castShadow = true;
     this.body.add(this.torso);
 
-    // Create arms
+    // Create arms. Limb paths are in body coordinates, starting at the
+    // shoulders and hips, so the limb groups sit at the body origin
     this.leftArm = this.createLimb(0.15, 0.8, 0x3f51b5);
-    this.leftArm.position.set(0.4, 1.4, 0);
+    this.leftArm.position.set(0, 0, 0);
     this.body.add(this.leftArm);
 
     this.rightArm = this.createLimb(0.15, 0.8, 0x3f51b5);
-    this.rightArm.position.set(-0.4, 1.4, 0);
+    this.rightArm.position.set(0, 0, 0);
     this.body.add(this.rightArm);
 
     // Create legs
     this.leftLeg = this.createLimb(0.2, 0.9, 0x4caf50);
-    this.leftLeg.position.set(0.2, 0.5, 0);
+    this.leftLeg.position.set(0, 0, 0);
     this.body.add(this.leftLeg);
 
     this.rightLeg = this.createLimb(0.2, 0.9, 0x4caf50);
-    this.rightLeg.position.set(-0.2, 0.5, 0);
+    this.rightLeg.position.set(0, 0, 0);
     this.body.add(this.rightLeg);
 
     // Apply default shape from shape system
@@ -151,195 +135,107 @@ export class Character {
     return limb;
   }
 
-  public update(
-    deltaTime: number,
-    rotationInput: THREE.Vector2,
-    shapeInput: string
-  ): void {
-    // Apply gravity
-    this.velocity.y -= 9.8 * deltaTime;
-
-    // Update position based on velocity
-    this.position.x += this.velocity.x * deltaTime;
-    this.position.y += this.velocity.y * deltaTime;
-    this.position.z += this.velocity.z * deltaTime;
-
-    // Ground collision (in case character misses trampoline)
-    if (this.position.y < 0) {
-      this.position.y = 0;
-      this.velocity.y = 0;
-      this.isInAir = false;
-    } else {
-      this.isInAir = true;
+  /**
+   * Position the meshes between the previous and current simulation state
+   * @param alpha Interpolation factor from the fixed timestep (0 to 1)
+   */
+  public interpolate(alpha: number): void {
+    // Rebuild the limbs if the simulation changed shape since last frame
+    if (this.renderedShapeVersion !== this.state.getShapeVersion()) {
+      this.applyStateShape();
     }
 
-    // Update rotation based on input
-    if (this.isInAir) {
-      // Update rotation speed based on input
-      const rotationFactor = 5; // Adjust for faster rotation
-      this.rotationSpeed = rotationInput.x * rotationFactor;
-
-      // Apply rotation
-      this.rotation.z += this.rotationSpeed * deltaTime;
-
-      // Track rotation for tricks
-      const rotationChange = this.rotation.z - this.lastRotation;
-      this.rotationTotal += Math.abs(rotationChange);
-      this.lastRotation = this.rotation.z;
-
-      // Detect tricks
-      this.detectTrick();
-    } else {
-      // Reset rotation when on ground
-      this.rotationSpeed = 0;
-      this.rotationTotal = 0;
-    }
+    const previousRotation = this.state.getPreviousRotation();
+    const rotation = this.state.getRotation();
+
+    this.group.position.lerpVectors(
+      this.state.getPreviousPosition(),
+      this.state.getPosition(),
+      alpha
+    );
+    this.group.rotation.set(
+      THREE.MathUtils.lerp(previousRotation.x, rotation.x, alpha),
+      THREE.MathUtils.lerp(previousRotation.y, rotation.y, alpha),
+      THREE.MathUtils.lerp(previousRotation.z, rotation.z, alpha)
+    );
 
-    // Update group position and rotation
-    this.group.position.copy(this.position);
-    this.group.rotation.copy(this.rotation);
+    // Swing the limbs to where their springs have carried them
+    this.shapeSystem.updateLimbPose(
+      this.leftArm,
+      this.rightArm,
+      this.leftLeg,
+      this.rightLeg,
+      this.interpolateLimbPose(alpha)
+    );
+  }
+
+  private interpolateLimbPose(alpha: number): LimbPose {
+    const previous = this.state.getPreviousLimbPose();
+    const current = this.state.getLimbPose();
+    const lerpChain = (from: Point[], to: Point[]): Point[] =>
+      to.map((p, i) => ({
+        x: THREE.MathUtils.lerp(from[i]?.x ?? p.x, p.x, alpha),
+        y: THREE.MathUtils.lerp(from[i]?.y ?? p.y, p.y, alpha),
+      }));
+
+    return {
+      leftArm: lerpChain(previous.leftArm, current.leftArm),
+      rightArm: lerpChain(previous.rightArm, current.rightArm),
+      leftLeg: lerpChain(previous.leftLeg, current.leftLeg),
+      rightLeg: lerpChain(previous.rightLeg, current.rightLeg),
+    };
   }
 
   /**
-   * Apply a custom shape based on a drawn path
+   * Render a different simulation state, e.g. when switching to a replay
+   */
+  public setState(state: CharacterSimulation): void {
+    this.state = state;
+    this.applyStateShape();
+  }
+
+  /**
+   * Turn a drawn path into limb positions for the simulation to apply
    * @param drawnPath Array of points from user drawing
-   * @returns boolean indicating if the shape was successfully applied
+   * @returns Limb positions, or null if the path could not be used
    */
-  public applyCustomShape(drawnPath: Point[]): boolean {
+  public processCustomShape(drawnPath: Point[]): LimbPositions | null {
     console.log("Character received drawn path with length:", drawnPath.length);
-    
+
     // Process the drawn shape using ShapeSystem
     const limbPositions = this.shapeSystem.processDrawnShape(drawnPath);
 
-    if (limbPositions) {
-      console.log("Processed limb positions - applying to character");
-      
-      // Store the custom limb positions
-      this.customLimbPositions = limbPositions;
-      this.isUsingCustomShape = true;
-
-      // Apply limb positions to character
-      this.shapeSystem.applyLimbPositions(
-        this.leftArm,
-        this.rightArm,
-        this.leftLeg,
-        this.rightLeg,
-        limbPositions
-      );
-
-      // Set current shape to "custom"
-      this.currentShape = 'custom';
-      
-      return true; // Successfully applied
+    if (!limbPositions) {
+      console.log("Failed to process drawn path to limb positions");
     }
-    
-    console.log("Failed to process drawn path to limb positions");
-    return false; // Failed to apply
+
+    return limbPositions;
   }
 
   /**
-   * Reset to a default shape
+   * Clear the drawn path visualization left over from custom shapes
    */
-  public resetToDefaultShape(): void {
-    this.isUsingCustomShape = false;
-    this.customLimbPositions = null;
+  public clearDrawnPath(): void {
     this.shapeSystem.clearDrawnPath();
+  }
+
+  /**
+   * Build the limb meshes for the simulation's current shape
+   */
+  private applyStateShape(): void {
+    const limbPositions =
+      this.state.getCustomLimbPositions() ||
+      this.shapeSystem.generateDefaultShape();
 
-    // Apply default shape from shape system
-    const defaultShape = this.shapeSystem.generateDefaultShape();
     this.shapeSystem.applyLimbPositions(
       this.leftArm,
       this.rightArm,
       this.leftLeg,
       this.rightLeg,
-      defaultShape
+      limbPositions
     );
 
-    this.currentShape = 'straight';
-  }
-
-  private detectTrick(): void {
-    // Define rotation thresholds for tricks
-    const FLIP_THRESHOLD = Math.PI * 2; // 360 degrees
-    const HALF_FLIP_THRESHOLD = Math.PI; // 180 degrees
-
-    // Detect trick based on total rotation
-    if (this.rotationTotal >= FLIP_THRESHOLD) {
-      // Detect the type of flip based on shape
-      let trickType = 'flip';
-      let difficultyMultiplier = 1.0;
-
-      switch (this.currentShape) {
-        case 'tuck':
-          trickType = 'tuck flip';
-          difficultyMultiplier = 1.2;
-          break;
-
-        case 'pike':
-          trickType = 'pike flip';
-          difficultyMultiplier = 1.5;
-          break;
-
-        case 'straddle':
-          trickType = 'straddle flip';
-          difficultyMultiplier = 1.8;
-          break;
-
-        case 'custom':
-          trickType = 'custom flip';
-          difficultyMultiplier = 2.0; // Custom shapes are more difficult
-          break;
-      }
-
-      // Set current trick
-      this.currentTrick = {
-        type: trickType,
-        rotation: Math.floor(this.rotationTotal / (Math.PI * 2)) * 360,
-        shape: this.currentShape,
-        difficultyMultiplier: difficultyMultiplier,
-      };
-
-      // Reset rotation tracking
-      this.rotationTotal = 0;
-    } else if (this.rotationTotal >= HALF_FLIP_THRESHOLD) {
-      // Half flip
-      this.currentTrick = {
-        type: 'half flip',
-        rotation: 180,
-        shape: this.currentShape,
-        difficultyMultiplier: this.currentShape === 'custom' ? 1.0 : 0.5,
-      };
-    }
-  }
-
-  public bounce(force: number): void {
-    // Apply bounce force
-    this.velocity.y = force;
-
-    // Reset rotation tracking for next jump
-    this.rotationTotal = 0;
-    this.currentTrick = null;
-  }
-
-  public getCurrentTrick(): Trick | null {
-    return this.currentTrick;
-  }
-
-  // Getters for physics properties
-  public getPosition(): THREE.Vector3 {
-    return this.position.clone();
-  }
-
-  public getVelocity(): THREE.Vector3 {
-    return this.velocity.clone();
-  }
-
-  public getRotation(): THREE.Euler {
-    return this.rotation.clone();
-  }
-
-  public getRotationSpeed(): number {
-    return this.rotationSpeed;
+    this.renderedShapeVersion = this.state.getShapeVersion();
   }
 
   /**
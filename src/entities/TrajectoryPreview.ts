@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { TrajectoryPrediction } from '../simulation/TrajectoryPrediction';
+
+// Ghost colours for a landing on the feet, any other safe landing and a
+// crash or a miss
+const FEET_COLOR = 0x4caf50;
+const DROP_COLOR = 0xffc107;
+const CRASH_COLOR = 0xf44336;
+
+/**
+ * Three.js overlay of a TrajectoryPrediction: the arc the center of mass
+ * will follow and a ghost of the body as it will be at touchdown
+ */
+export class TrajectoryPreview {
+  private scene: THREE.Scene;
+  private arc: THREE.Line;
+  private ghost: THREE.Group;
+  private ghostMaterial: THREE.MeshBasicMaterial;
+
+  constructor(scene: THREE.Scene) {
+    this.scene = scene;
+
+    this.arc = new THREE.Line(
+      new THREE.BufferGeometry(),
+      new THREE.LineDashedMaterial({
+        color: 0xffffff,
+        dashSize: 0.2,
+        gapSize: 0.15,
+        transparent: true,
+        opacity: 0.7,
+      })
+    );
+    this.arc.visible = false;
+    this.scene.add(this.arc);
+
+    this.ghostMaterial = new THREE.MeshBasicMaterial({
+      color: FEET_COLOR,
+      transparent: true,
+      opacity: 0.35,
+      depthWrite: false,
+    });
+    this.ghost = this.createGhost();
+    this.ghost.visible = false;
+    this.scene.add(this.ghost);
+  }
+
+  /**
+   * Body outline matching the Character layout: head, torso and legs down
+   * to the feet
+   */
+  private createGhost(): THREE.Group {
+    const ghost = new THREE.Group();
+
+    const head = new THREE.Mesh(
+      new THREE.SphereGeometry(0.3, 16, 16),
+      this.ghostMaterial
+    );
+    head.position.y = 1.7;
+    ghost.add(head);
+
+    const torso = new THREE.Mesh(
+      new THREE.BoxGeometry(0.8, 1.0, 0.4),
+      this.ghostMaterial
+    );
+    torso.position.y = 0.95;
+    ghost.add(torso);
+
+    const legs = new THREE.Mesh(
+      new THREE.BoxGeometry(0.6, 1.1, 0.3),
+      this.ghostMaterial
+    );
+    legs.position.y = -0.05;
+    ghost.add(legs);
+
+    return ghost;
+  }
+
+  /**
+   * Show a new prediction, or hide the overlay with null
+   */
+  public update(prediction: TrajectoryPrediction | null): void {
+    if (!prediction) {
+      this.arc.visible = false;
+      this.ghost.visible = false;
+      return;
+    }
+
+    this.arc.geometry.setFromPoints(prediction.path);
+    this.arc.computeLineDistances();
+    this.arc.visible = true;
+
+    const touchdown = prediction.touchdown;
+    if (!touchdown) {
+      this.ghost.visible = false;
+      return;
+    }
+
+    this.ghost.position.copy(touchdown.position);
+    this.ghost.rotation.copy(touchdown.rotation);
+
+    const isCrash = !touchdown.onBed || touchdown.isCrashLanding;
+    this.ghostMaterial.color.setHex(
+      isCrash
+        ? CRASH_COLOR
+        : touchdown.part === 'foot'
+          ? FEET_COLOR
+          : DROP_COLOR
+    );
+    this.ghost.visible = true;
+  }
+}
@@ -1,17 +1,25 @@
 import * as THREE from 'three';
+import { TrampolineSimulation } from '../simulation/TrampolineSimulation';
 
+// Space between the edge of the bed and the frame, bridged by the springs
+const FRAME_GAP = 0.2;
+
+/**
+ * Three.js view of a TrampolineSimulation
+ */
 export class Trampoline {
   private scene: THREE.Scene;
   private frame: THREE.Group;
   private mat: THREE.Mesh;
   private springs: THREE.Mesh[];
-  private animationTime: number = 0;
-  private isCompressed: boolean = false;
-  private compressionAmount: number = 0;
   private restPosition: number = 0;
 
-  constructor(scene: THREE.Scene) {
+  // Physics state this view renders
+  private state: TrampolineSimulation;
+
+  constructor(scene: THREE.Scene, state: TrampolineSimulation) {
     this.scene = scene;
+    this.state = state;
     this.springs = [];
 
     // Create trampoline group
@@ -33,35 +41,73 @@ export class Trampoline {
   }
 
   private createFrame(): void {
-    const frameGeometry = new THREE.TorusGeometry(3, 0.2, 16, 32);
+    const { outline, frameColor } = this.state.getSpec();
     const frameMaterial = new THREE.MeshStandardMaterial({
-      color: 0x444444,
+      color: frameColor,
       roughness: 0.5,
       metalness: 0.7,
     });
 
-    const frame = new THREE.Mesh(frameGeometry, frameMaterial);
-    frame.rotation.x = Math.PI / 2; // Make it horizontal
-    frame.position.y = 0;
-    frame.castShadow = true;
-    frame.receiveShadow = true;
-
-    this.frame.add(frame);
+    if (outline.shape === 'round') {
+      const frameGeometry = new THREE.TorusGeometry(
+        outline.radius + FRAME_GAP,
+        0.2,
+        16,
+        32
+      );
+      const frame = new THREE.Mesh(frameGeometry, frameMaterial);
+      frame.rotation.x = Math.PI / 2; // Make it horizontal
+      frame.position.y = 0;
+      frame.castShadow = true;
+      frame.receiveShadow = true;
+      this.frame.add(frame);
+    } else {
+      // One bar along each edge, meeting at the corners
+      const halfLength = outline.length / 2 + FRAME_GAP;
+      const halfWidth = outline.width / 2 + FRAME_GAP;
+      const bars = [
+        { x: 0, z: halfWidth, sizeX: halfLength * 2 + 0.4, sizeZ: 0.4 },
+        { x: 0, z: -halfWidth, sizeX: halfLength * 2 + 0.4, sizeZ: 0.4 },
+        { x: halfLength, z: 0, sizeX: 0.4, sizeZ: halfWidth * 2 },
+        { x: -halfLength, z: 0, sizeX: 0.4, sizeZ: halfWidth * 2 },
+      ];
+
+      bars.forEach((bar) => {
+        const frame = new THREE.Mesh(
+          new THREE.BoxGeometry(bar.sizeX, 0.3, bar.sizeZ),
+          frameMaterial
+        );
+        frame.position.set(bar.x, 0, bar.z);
+        frame.castShadow = true;
+        frame.receiveShadow = true;
+        this.frame.add(frame);
+      });
+    }
 
     // Add frame legs
     const legGeometry = new THREE.CylinderGeometry(0.1, 0.1, 2);
     const legMaterial = new THREE.MeshStandardMaterial({
-      color: 0x444444,
+      color: frameColor,
       roughness: 0.5,
       metalness: 0.7,
     });
 
-    const legPositions = [
-      { x: 2.5, z: 0 },
-      { x: -2.5, z: 0 },
-      { x: 0, z: 2.5 },
-      { x: 0, z: -2.5 },
-    ];
+    // Round frames stand on four legs under the rim, rectangular ones on
+    // their corners
+    const legPositions =
+      outline.shape === 'round'
+        ? [
+            { x: outline.radius - 0.3, z: 0 },
+            { x: -(outline.radius - 0.3), z: 0 },
+            { x: 0, z: outline.radius - 0.3 },
+            { x: 0, z: -(outline.radius - 0.3) },
+          ]
+        : [1, -1].flatMap((signX) =>
+            [1, -1].map((signZ) => ({
+              x: signX * (outline.length / 2 + FRAME_GAP),
+              z: signZ * (outline.width / 2 + FRAME_GAP),
+            }))
+          );
 
     legPositions.forEach((pos) => {
       const leg = new THREE.Mesh(legGeometry, legMaterial);
@@ -72,7 +118,11 @@ export class Trampoline {
   }
 
   private createMat(): THREE.Mesh {
-    const matGeometry = new THREE.CircleGeometry(2.8, 32);
+    const { outline } = this.state.getSpec();
+    const matGeometry =
+      outline.shape === 'round'
+        ? new THREE.CircleGeometry(outline.radius, 32)
+        : new THREE.PlaneGeometry(outline.length, outline.width);
     const matMaterial = new THREE.MeshStandardMaterial({
       color: 0x2196f3,
       roughness: 0.5,
@@ -92,6 +142,7 @@ export class Trampoline {
   }
 
   private createSprings(): void {
+    const { outline, springCount } = this.state.getSpec();
     const springGeometry = new THREE.CylinderGeometry(0.05, 0.05, 0.3, 8);
     const springMaterial = new THREE.MeshStandardMaterial({
       color: 0xcccccc,
@@ -100,68 +151,91 @@ export class Trampoline {
     });
 
     // Create springs around the perimeter
-    const numSprings = 16;
-    const radius = 2.8;
-
-    for (let i = 0; i < numSprings; i++) {
-      const angle = (i / numSprings) * Math.PI * 2;
-      const x = Math.cos(angle) * radius;
-      const z = Math.sin(angle) * radius;
-
+    for (let i = 0; i < springCount; i++) {
       const spring = new THREE.Mesh(springGeometry, springMaterial);
-      spring.position.set(x, 0, z);
-      spring.rotation.x = Math.PI / 2; // Make it connect the mat and frame
+
+      if (outline.shape === 'round') {
+        const angle = (i / springCount) * Math.PI * 2;
+        spring.position.set(
+          Math.cos(angle) * outline.radius,
+          0,
+          Math.sin(angle) * outline.radius
+        );
+        spring.rotation.x = Math.PI / 2; // Make it connect the mat and frame
+      } else {
+        // Spread evenly along the edge, each spanning the gap to the frame
+        const { x, z, alongLength } = this.getEdgePoint(
+          outline.length,
+          outline.width,
+          (i + 0.5) / springCount
+        );
+        spring.position.set(x, 0, z);
+        if (alongLength) {
+          spring.rotation.x = Math.PI / 2;
+        } else {
+          spring.rotation.z = Math.PI / 2;
+        }
+      }
 
       this.springs.push(spring);
       this.frame.add(spring);
     }
   }
 
-  public update(deltaTime: number): void {
-    // Update animation time
-    this.animationTime += deltaTime;
-
-    // If the trampoline is compressed, animate it back to rest position
-    if (this.isCompressed) {
-      // Spring back to original position
-      const damping = 0.9;
-
-      // Spring back with damping
-      this.compressionAmount *= damping;
-      this.mat.position.y = this.restPosition - this.compressionAmount;
-
-      // Update spring positions
-      this.updateSprings();
-
-      // If compression is very small, reset to rest position
-      if (Math.abs(this.compressionAmount) < 0.01) {
-        this.isCompressed = false;
-        this.compressionAmount = 0;
-        this.mat.position.y = this.restPosition;
-        this.updateSprings();
-      }
+  /**
+   * Point a share of the way round the edge of a rectangular bed
+   * @param t 0 to 1, starting at a corner
+   * @returns Where the point is and whether it lies on one of the long sides
+   */
+  private getEdgePoint(
+    length: number,
+    width: number,
+    t: number
+  ): { x: number; z: number; alongLength: boolean } {
+    let distance = t * 2 * (length + width);
+    const halfLength = length / 2;
+    const halfWidth = width / 2;
+
+    if (distance < length) {
+      return { x: distance - halfLength, z: halfWidth, alongLength: true };
     }
+    distance -= length;
+    if (distance < width) {
+      return { x: halfLength, z: halfWidth - distance, alongLength: false };
+    }
+    distance -= width;
+    if (distance < length) {
+      return { x: halfLength - distance, z: -halfWidth, alongLength: true };
+    }
+    distance -= length;
+    return { x: -halfLength, z: distance - halfWidth, alongLength: false };
   }
 
-  private updateSprings(): void {
-    // Update spring positions based on mat position
-    this.springs.forEach((spring) => {
-      spring.scale.y = 1 - this.compressionAmount;
-    });
-  }
-
-  public compress(amount: number): void {
-    this.isCompressed = true;
-    this.compressionAmount = amount;
-    this.mat.position.y = this.restPosition - amount;
-    this.updateSprings();
+  /**
+   * Render a different simulation state, e.g. when switching to a replay
+   */
+  public setState(state: TrampolineSimulation): void {
+    this.state = state;
   }
 
-  public getPosition(): THREE.Vector3 {
-    return this.mat.position.clone();
+  /**
+   * Position the mat between the previous and current simulation state
+   * @param alpha Interpolation factor from the fixed timestep (0 to 1)
+   */
+  public interpolate(alpha: number): void {
+    const compression = THREE.MathUtils.lerp(
+      this.state.getPreviousCompression(),
+      this.state.getCompression(),
+      alpha
+    );
+    this.mat.position.y = this.restPosition - compression;
+    this.updateSprings(compression);
   }
 
-  public getRadius(): number {
-    return 2.8; // Radius of the mat
+  private updateSprings(compression: number): void {
+    // Update spring positions based on mat position
+    this.springs.forEach((spring) => {
+      spring.scale.y = 1 - compression;
+    });
   }
 }
@@ -0,0 +1,54 @@
+// Simulation tick length in seconds (60 ticks per second)
+export const FIXED_TIMESTEP = 1 / 60;
+
+// Longest frame we will try to catch up on, to avoid a spiral of death
+// after the tab has been in the background
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Accumulator that turns variable frame times into a whole number of
+ * fixed-length simulation ticks. The leftover fraction is returned so the
+ * renderer can interpolate between the last two simulation states.
+ */
+export class FixedTimestep {
+  private readonly step: number;
+  private readonly maxFrameTime: number;
+  private accumulator: number = 0;
+  private tickCount: number = 0;
+
+  constructor(step: number = FIXED_TIMESTEP, maxFrameTime = MAX_FRAME_TIME) {
+    this.step = step;
+    this.maxFrameTime = maxFrameTime;
+  }
+
+  /**
+   * Consume a frame's worth of real time
+   * @param frameTime Seconds elapsed since the previous frame
+   * @param tick Called once per fixed step with the step length
+   * @returns Interpolation factor (0 to 1) between the previous and current state
+   */
+  public advance(frameTime: number, tick: (step: number) => void): number {
+    this.accumulator += Math.min(Math.max(frameTime, 0), this.maxFrameTime);
+
+    while (this.accumulator >= this.step) {
+      tick(this.step);
+      this.accumulator -= this.step;
+      this.tickCount++;
+    }
+
+    return this.accumulator / this.step;
+  }
+
+  public getStep(): number {
+    return this.step;
+  }
+
+  public getTickCount(): number {
+    return this.tickCount;
+  }
+
+  public reset(): void {
+    this.accumulator = 0;
+    this.tickCount = 0;
+  }
+}
@@ -1,36 +1,114 @@
 // Game class implementation
 import { Renderer } from '../rendering/Renderer';
 import { InputManager } from './InputManager';
-import { Physics } from './Physics';
 import { ScoreManager } from './ScoreManager';
-import { Character, Trick } from '../entities/Character';
+import { FixedTimestep } from './FixedTimestep';
+import { Character } from '../entities/Character';
 import { Trampoline } from '../entities/Trampoline';
 import { Environment } from '../entities/Environment';
+import { TrajectoryPreview } from '../entities/TrajectoryPreview';
+import { Simulation, SimulationInput } from '../simulation/Simulation';
+import { Trick } from '../simulation/CharacterSimulation';
+import { LimbPositions, Point } from '../simulation/Pose';
+import {
+  getTrickName,
+  LandingPosition,
+} from '../simulation/LandingPosition';
+import {
+  Replay,
+  ReplayPlayer,
+  ReplayRecorder,
+} from '../simulation/Replay';
+import { parseReplay, serializeReplay } from '../simulation/ReplayFile';
+import { TrajectoryPredictor } from '../simulation/TrajectoryPrediction';
+import {
+  ROUND_BACKYARD_TRAMPOLINE,
+  TrampolineSpec,
+} from '../simulation/TrampolineSpec';
+import { DEFAULT_CHARACTER_STATS } from '../simulation/CharacterStats';
+import { ReplayPanel } from '../ui/ReplayPanel';
+import { BounceTimingDisplay } from '../ui/BounceTimingDisplay';
+import { SkillTargetPanel } from '../ui/SkillTargetPanel';
+import { JudgeBreakdownPanel } from '../ui/JudgeBreakdownPanel';
+import { RoutineProgressDisplay } from '../ui/RoutineProgressDisplay';
+import { ComboMeter } from '../ui/ComboMeter';
+import {
+  CompetitionRoutine,
+  RoutineResult,
+} from '../simulation/CompetitionRoutine';
+import { formatTrickNotation, matchesSkill } from '../simulation/TrickNotation';
+import {
+  classifyShape,
+  ShapeClassification,
+} from '../simulation/ShapeClassifier';
 
 export class Game {
   private renderer: Renderer;
-  private physics: Physics;
+  // The simulation being rendered, either the live run or a replay
+  private simulation: Simulation;
+  private liveSimulation: Simulation;
   private inputManager: InputManager;
   private scoreManager: ScoreManager;
   // Make character public so InputManager can access it
   public character: Character;
   private trampoline: Trampoline;
+  // Model of trampoline every run in this game is played on
+  private readonly trampolineSpec: TrampolineSpec;
+  // Assist overlay showing where the current jump will come down
+  private trajectoryPreview: TrajectoryPreview;
+  private showTrajectory: boolean = false;
+  private trajectoryPredictor: TrajectoryPredictor = new TrajectoryPredictor();
   // Provides background visuals
   private readonly environment: Environment;
+  private timestep: FixedTimestep;
+  private recorder: ReplayRecorder;
+  private replayPlayer: ReplayPlayer | null = null;
+  private bestReplay: Replay | null = null;
+  private bestReplayScore: number = 0;
+  private replayPanel: ReplayPanel | null = null;
+  private bounceTimingDisplay: BounceTimingDisplay | null = null;
+  private skillTargetPanel: SkillTargetPanel | null = null;
+  private judgeBreakdownPanel: JudgeBreakdownPanel | null = null;
+  // Judged mode shows the judges' marks whenever a routine ends
+  private isJudged: boolean = false;
+  // Ten-skill routine under way, null outside routine mode
+  private routine: CompetitionRoutine | null = null;
+  private routineProgressDisplay: RoutineProgressDisplay | null = null;
+  private comboMeter: ComboMeter | null = null;
+  // Input queued for the next simulation tick
+  private pendingCustomShape: LimbPositions | null | undefined = undefined;
   private lastTime: number = 0;
   private isRunning: boolean = false;
   private lastTrick: Trick | null = null;
   private lastLandingQuality: number = 0;
+  private lastLandingPosition: LandingPosition = 'feet';
   private showDebugInfo: boolean = false;
 
-  constructor() {
+  constructor(trampolineSpec: TrampolineSpec = ROUND_BACKYARD_TRAMPOLINE) {
+    this.trampolineSpec = trampolineSpec;
     this.renderer = new Renderer();
-    this.physics = new Physics();
+    this.liveSimulation = new Simulation(
+      DEFAULT_CHARACTER_STATS,
+      this.trampolineSpec
+    );
+    this.simulation = this.liveSimulation;
     this.inputManager = new InputManager();
-    this.scoreManager = new ScoreManager();
+    this.scoreManager = new ScoreManager(this.simulation.scoreKeeper);
+    this.timestep = new FixedTimestep();
+    this.recorder = new ReplayRecorder(
+      this.timestep.getStep(),
+      this.liveSimulation.character.getStats()
+    );
     this.environment = new Environment(this.renderer.scene);
-    this.trampoline = new Trampoline(this.renderer.scene);
-    this.character = new Character(this.renderer.scene);
+    this.trampoline = new Trampoline(
+      this.renderer.scene,
+      this.simulation.trampoline
+    );
+    this.character = new Character(
+      this.renderer.scene,
+      this.simulation.character
+    );
+    this.trajectoryPreview = new TrajectoryPreview(this.renderer.scene);
 
     // Add CSS animations
     this.addCssAnimations();
@@ -44,11 +122,33 @@ export class Game {
   public start(): void {
     this.isRunning = true;
     this.lastTime = performance.now();
+    this.timestep.reset();
 
     // Initialize input and UI
     this.inputManager.initialize();
     this.inputManager.createScoreDisplay();
     this.inputManager.createTrickDisplay();
+    if (!this.replayPanel) {
+      this.replayPanel = new ReplayPanel(
+        () => this.exportBestReplay(),
+        (contents) => this.importReplay(contents)
+      );
+    }
+    if (!this.bounceTimingDisplay) {
+      this.bounceTimingDisplay = new BounceTimingDisplay();
+    }
+    if (!this.skillTargetPanel) {
+      this.skillTargetPanel = new SkillTargetPanel();
+    }
+    if (!this.judgeBreakdownPanel) {
+      this.judgeBreakdownPanel = new JudgeBreakdownPanel();
+    }
+    if (!this.routineProgressDisplay) {
+      this.routineProgressDisplay = new RoutineProgressDisplay();
+    }
+    if (!this.comboMeter) {
+      this.comboMeter = new ComboMeter();
+    }
 
     // Add event listeners
     this.setupEventListeners();
@@ -69,16 +169,164 @@ export class Game {
         this.showDebugInfo = !this.showDebugInfo;
         this.updateDebugInfo();
       }
-      // Reset character position if it gets stuck
-      if (event.code === 'KeyR') {
-        this.resetCharacterPosition();
+      // Show or hide the predicted flight path and landing
+      if (event.code === 'KeyT') {
+        this.showTrajectory = !this.showTrajectory;
+      }
+      // Switch judged mode on or off
+      if (event.code === 'KeyJ') {
+        this.isJudged = !this.isJudged;
+        if (!this.isJudged) {
+          this.judgeBreakdownPanel?.hide();
+        }
       }
+      // Start a ten-skill routine, or abandon the one under way
+      if (event.code === 'KeyR' && !this.replayPlayer) {
+        if (this.routine) {
+          this.routine = null;
+          this.routineProgressDisplay?.hide();
+        } else {
+          this.routine = new CompetitionRoutine();
+          this.judgeBreakdownPanel?.hide();
+          this.routineProgressDisplay?.update(this.routine);
+        }
+      }
+      // Watch the best run so far, or stop watching
+      if (event.code === 'KeyP') {
+        if (this.replayPlayer) {
+          this.stopPlayback();
+        } else {
+          this.playReplay(this.getBestReplay());
+        }
+      }
+    });
+  }
+
+  /**
+   * Queue a drawn shape to be applied on the next simulation tick
+   * @param drawnPath Array of points from user drawing
+   * @returns The shape the drawing was recognised as, or null if it could
+   * not be processed
+   */
+  public applyCustomShape(drawnPath: Point[]): ShapeClassification | null {
+    const limbPositions = this.character.processCustomShape(drawnPath);
+    if (!limbPositions) return null;
+
+    this.pendingCustomShape = limbPositions;
+    return classifyShape(limbPositions);
+  }
+
+  /**
+   * Watch a recorded run from the start. The live run is paused meanwhile.
+   */
+  public playReplay(replay: Replay): void {
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.bindSimulation(new Simulation(replay.stats, this.trampolineSpec));
+    this.updateReplayIndicator();
+  }
+
+  /**
+   * Return from a replay to the paused live run
+   */
+  public stopPlayback(): void {
+    if (!this.replayPlayer) return;
+
+    this.replayPlayer = null;
+    this.bindSimulation(this.liveSimulation);
+    this.updateReplayIndicator();
+  }
+
+  /**
+   * The live run recorded so far
+   */
+  public getCurrentReplay(): Replay {
+    return this.recorder.getReplay();
+  }
+
+  /**
+   * The highest scoring run this session, including the current one
+   */
+  public getBestReplay(): Replay {
+    return this.getBestRun().replay;
+  }
+
+  private getBestRun(): { replay: Replay; score: number } {
+    const score = this.liveSimulation.scoreKeeper.getScore();
+    if (this.bestReplay && this.bestReplayScore > score) {
+      return { replay: this.bestReplay, score: this.bestReplayScore };
+    }
+    return { replay: this.recorder.getReplay(), score };
+  }
+
+  /**
+   * Write the best run to a replay file
+   */
+  private exportBestReplay(): { fileName: string; contents: string } {
+    const { replay, score } = this.getBestRun();
+    const contents = serializeReplay(replay, {
+      trampoline: this.trampolineSpec,
+      finalScore: score,
     });
+
+    return { fileName: `bounce-trick-replay-${score}.json`, contents };
+  }
+
+  /**
+   * Play a replay file
+   * @throws ReplayFormatError if the file cannot be played in this build
+   */
+  private importReplay(contents: string): void {
+    const { replay } = parseReplay(contents, {
+      step: this.timestep.getStep(),
+      trampoline: this.trampolineSpec,
+    });
+
+    this.stopPlayback();
+    this.playReplay(replay);
+  }
+
+  /**
+   * Point the views at a different simulation
+   */
+  private bindSimulation(simulation: Simulation): void {
+    this.simulation = simulation;
+    this.character.setState(simulation.character);
+    this.trampoline.setState(simulation.trampoline);
+    this.updateScoreDisplay();
+  }
+
+  private updateScoreDisplay(): void {
+    const scoreDisplay = document.getElementById('score-display');
+    if (scoreDisplay) {
+      scoreDisplay.textContent = this.simulation.scoreKeeper
+        .getScore()
+        .toString();
+    }
   }
 
-  private resetCharacterPosition(): void {
-    // Reset character to above the trampoline
-    this.character.bounce(5); // Small bounce to reset
+  private updateReplayIndicator(): void {
+    let indicator = document.getElementById('replay-indicator');
+
+    if (this.replayPlayer) {
+      if (!indicator) {
+        indicator = document.createElement('div');
+        indicator.id = 'replay-indicator';
+        indicator.style.position = 'absolute';
+        indicator.style.top = '20px';
+        indicator.style.left = '50%';
+        indicator.style.transform = 'translateX(-50%)';
+        indicator.style.fontSize = '24px';
+        indicator.style.fontWeight = 'bold';
+        indicator.style.color = '#ff5252';
+        indicator.style.textShadow = '2px 2px 4px rgba(0, 0, 0, 0.5)';
+        indicator.style.zIndex = '30';
+        document.body.appendChild(indicator);
+      }
+      const progress = Math.round(this.replayPlayer.getProgress() * 100);
+      indicator.textContent = `REPLAY ${progress}% (P to exit)`;
+    } else if (indicator) {
+      document.body.removeChild(indicator);
+    }
   }
 
   private updateDebugInfo(): void {
@@ -128,91 +376,205 @@ export class Game {
     if (!this.isRunning) return;
 
     const currentTime = performance.now();
-    const deltaTime = Math.min((currentTime - this.lastTime) / 1000, 0.1); // Convert to seconds, cap at 0.1s to prevent large jumps
+    const frameTime = (currentTime - this.lastTime) / 1000; // Convert to seconds
     this.lastTime = currentTime;
 
-    // Update physics
-    this.physics.update(deltaTime);
-
     // We don't check for a drawn path here anymore
     // The path is now only applied when the user finishes drawing (handled in InputManager)
-    
+
     // Make sure the torso visual guide is always displayed
     this.character.showTorsoVisual();
 
-    // Update character based on physics and input
-    this.character.update(
-      deltaTime,
-      this.inputManager.getRotationInput(),
-      this.inputManager.getShapeInput()
+    // Step the simulation at a fixed rate so every device gets the same jump
+    const alpha = this.timestep.advance(frameTime, (step) =>
+      this.simulationStep(step)
+    );
+
+    // Place meshes between the last two simulation states
+    this.character.interpolate(alpha);
+    this.trampoline.interpolate(alpha);
+    this.trajectoryPreview.update(
+      this.showTrajectory
+        ? this.trajectoryPredictor.predict(
+            this.simulation,
+            this.timestep.getStep()
+          )
+        : null
+    );
+    this.comboMeter?.update(
+      this.simulation.scoreKeeper,
+      this.simulation.getTime()
     );
 
-    // Always show torso visual guide
-    if (this.character instanceof Character) {
-      this.character.showTorsoVisual();
+    // Update debug info if enabled
+    if (this.showDebugInfo) {
+      this.updateDebugDisplay(frameTime);
     }
 
-    // Update trampoline
-    this.trampoline.update(deltaTime);
+    // Render the scene
+    this.renderer.render();
 
-    // Check for collisions
-    if (this.physics.checkCollision(this.character, this.trampoline)) {
-      const landingQuality = this.physics.calculateLandingQuality(
-        this.character
-      );
-      const bounceForce = this.physics.calculateBounceForce(landingQuality);
-      this.character.bounce(bounceForce);
+    // Continue the game loop
+    requestAnimationFrame(() => this.gameLoop());
+  }
+
+  /**
+   * Advance the game state by exactly one fixed timestep
+   */
+  private simulationStep(step: number): void {
+    let input: SimulationInput | null;
+
+    if (this.replayPlayer) {
+      // Drive the simulation from the recording instead of live input
+      input = this.replayPlayer.next();
+      if (!input) {
+        this.stopPlayback();
+        return;
+      }
+    } else {
+      input = this.sampleInput();
+      this.recorder.record(input);
+    }
+
+    const landing = this.simulation.step(step, input);
+    this.trajectoryPredictor.observeInput(input);
 
-      // Calculate score for the jump
-      const trick = this.character.getCurrentTrick();
-      if (trick) {
-        const points = this.scoreManager.calculatePoints(trick, landingQuality);
-        this.scoreManager.addPoints(points);
+    const bounceTiming = this.simulation.getBounceTiming();
+    if (bounceTiming) {
+      this.bounceTimingDisplay?.show(bounceTiming);
+    }
 
-        // Update UI
-        document.getElementById('score-display')!.textContent =
-          this.scoreManager.getScore().toString();
+    const chainEnd = this.simulation.getChainEnd();
+    if (chainEnd) {
+      this.comboMeter?.showEnd(chainEnd);
+    }
 
-        // Display trick name
-        this.inputManager.displayTrick(trick);
+    const crash = this.simulation.getCrash();
+    if (crash) {
+      this.scoreManager.showCrash(crash);
+      this.updateScoreDisplay();
+    }
 
-        // Store trick info for debug
-        this.lastTrick = trick;
-        this.lastLandingQuality = landingQuality;
+    // A competition routine is judged under its own rules instead
+    const judgement = this.simulation.getRoutineJudgement();
+    if (judgement && this.isJudged && !this.routine) {
+      this.judgeBreakdownPanel?.show(judgement);
+    }
+
+    if (this.routine && !this.replayPlayer && (landing || crash)) {
+      const result = landing
+        ? this.routine.addBounce(landing)
+        : crash && this.routine.addCrash(crash);
+      if (result) {
+        this.finishRoutine(result);
+      } else {
+        this.routineProgressDisplay?.update(this.routine);
       }
     }
 
-    // Update debug info if enabled
-    if (this.showDebugInfo) {
-      this.updateDebugDisplay();
+    if (landing && landing.trick) {
+      // Replays never count towards the saved high score
+      this.scoreManager.showPointsAwarded(
+        landing.points,
+        landing.isNewHighScore && !this.replayPlayer
+      );
+
+      // Update UI
+      this.updateScoreDisplay();
+
+      // Display trick name
+      this.inputManager.displayTrick(landing.trick);
+
+      // Tell the player when they land the skill they are practising
+      const target = this.skillTargetPanel?.getTarget();
+      if (target) {
+        const notation = formatTrickNotation(landing.trick) ?? 'no skill';
+        this.skillTargetPanel?.showMessage(
+          matchesSkill(landing.trick, target)
+            ? `Landed it! ${notation}`
+            : `That was ${notation}, keep trying`,
+          false
+        );
+      }
+
+      // Store trick info for debug
+      this.lastTrick = landing.trick;
+      this.lastLandingQuality = landing.landingQuality;
+      this.lastLandingPosition = landing.landingPosition;
     }
 
-    // Render the scene
-    this.renderer.render();
+    if (this.replayPlayer) {
+      this.updateReplayIndicator();
+    }
+  }
 
-    // Continue the game loop
-    requestAnimationFrame(() => this.gameLoop());
+  /**
+   * Show the marks for a competition routine and leave routine mode
+   */
+  private finishRoutine(result: RoutineResult): void {
+    this.routine = null;
+    this.routineProgressDisplay?.hide();
+    if (result.judgement) {
+      this.judgeBreakdownPanel?.show(result.judgement, [
+        ...result.violations.map((violation) =>
+          violation.penalty > 0
+            ? `${violation.message} (-${violation.penalty.toFixed(1)})`
+            : violation.message
+        ),
+        `Routine score ${result.score.toFixed(3)}`,
+      ]);
+    }
   }
 
-  private updateDebugDisplay(): void {
+  /**
+   * Collect live input for one tick, including queued shape changes
+   */
+  private sampleInput(): SimulationInput {
+    const input: SimulationInput = {
+      rotation: this.inputManager.getRotationInput(),
+      shape: this.inputManager.getShapeInput(),
+    };
+
+    if (this.inputManager.isPumpHeld()) {
+      input.pump = true;
+    }
+
+    if (this.pendingCustomShape !== undefined) {
+      input.customShape = this.pendingCustomShape;
+      this.pendingCustomShape = undefined;
+    }
+
+    return input;
+  }
+
+  private updateDebugDisplay(frameTime: number): void {
     const debugElement = document.getElementById('debug-info');
     if (!debugElement) return;
 
-    const charPos = this.character.getPosition();
-    const charVel = this.character.getVelocity();
+    const charPos = this.simulation.character.getPosition();
+    const charVel = this.simulation.character.getVelocity();
     const isDrawingMode = this.inputManager.isInDrawingMode();
     const drawnPathLength = this.inputManager.getDrawnPath().length;
 
     let debugInfo = `
       Character Position: ${charPos.x.toFixed(2)}, ${charPos.y.toFixed(2)}, ${charPos.z.toFixed(2)}<br>
       Character Velocity: ${charVel.x.toFixed(2)}, ${charVel.y.toFixed(2)}, ${charVel.z.toFixed(2)}<br>
-      Rotation Speed: ${this.character.getRotationSpeed().toFixed(2)}<br>
+      Rotation Speed: ${this.simulation.character.getRotationSpeed().toFixed(2)}<br>
+      Moment of Inertia: ${this.simulation.character.getMomentOfInertia().toFixed(3)}<br>
+      Shape Difficulty: ${this.simulation.character.getShapeDifficulty().toFixed(2)}<br>
+      Shape Transition: ${this.describeShapeTransition()}<br>
+      Twist Speed: ${this.simulation.character.getTwistSpeed().toFixed(2)}<br>
+      Net Somersault: ${((this.simulation.character.getNetSomersault() * 180) / Math.PI).toFixed(0)}°<br>
+      Net Twist: ${((this.simulation.character.getNetTwist() * 180) / Math.PI).toFixed(0)}°<br>
       Current Shape: ${this.inputManager.getShapeInput()}<br>
       Drawing Mode: ${isDrawingMode ? 'Active' : 'Inactive'}<br>
       Drawn Path Points: ${drawnPathLength}<br>
-      FPS: ${((1 / (performance.now() - this.lastTime)) * 1000).toFixed(1)}<br>
+      FPS: ${(1 / Math.max(frameTime, 0.001)).toFixed(1)}<br>
+      Simulation Ticks: ${this.timestep.getTickCount()}<br>
+      Character State: ${this.simulation.getState()}<br>
       <br>
-      Last Trick: ${this.lastTrick ? this.lastTrick.type : 'None'}<br>
+      Last Trick: ${this.lastTrick ? getTrickName(this.lastTrick) : 'None'}<br>
+      Landing Position: ${this.lastLandingPosition}<br>
       Landing Quality: ${this.lastLandingQuality.toFixed(2)}<br>
       Score: ${this.scoreManager.getScore()}<br>
       High Score: ${this.scoreManager.getHighScore()}<br>
@@ -221,18 +583,45 @@ export class Game {
     debugElement.innerHTML = debugInfo;
   }
 
+  private describeShapeTransition(): string {
+    const progress = this.simulation.character.getShapeTransitionProgress();
+    return progress === null ? 'Reached' : `${Math.round(progress * 100)}%`;
+  }
+
   public stop(): void {
     this.isRunning = false;
   }
 
   public restart(): void {
-    // Reset the game state
-    this.scoreManager.resetScore();
-    this.resetCharacterPosition();
+    this.stopPlayback();
+
+    // Keep the best run so it can be watched again
+    const score = this.liveSimulation.scoreKeeper.getScore();
+    if (!this.bestReplay || score > this.bestReplayScore) {
+      this.bestReplay = this.recorder.getReplay();
+      this.bestReplayScore = score;
+    }
+
+    // Start a fresh simulation so the new recording has a known start
+    this.liveSimulation = new Simulation(
+      DEFAULT_CHARACTER_STATS,
+      this.trampolineSpec
+    );
+    this.bindSimulation(this.liveSimulation);
+    this.scoreManager.setScoreKeeper(this.liveSimulation.scoreKeeper);
+    this.recorder = new ReplayRecorder(
+      this.timestep.getStep(),
+      this.liveSimulation.character.getStats()
+    );
+    this.pendingCustomShape = undefined;
+
+    // A routine belongs to the run it started in
+    this.routine = null;
+    this.routineProgressDisplay?.hide();
 
     // Clear any custom shapes
     this.inputManager.clearDrawnPath();
-    this.character.resetToDefaultShape();
+    this.character.clearDrawnPath();
 
     // Start the game again
     if (!this.isRunning) {
@@ -1,13 +1,17 @@
 import * as THREE from 'three';
 import nipplejs from 'nipplejs';
 import { Point } from '../rendering/ShapeSystem';
+import { getTrickName } from '../simulation/LandingPosition';
+import { formatTrickNotation } from '../simulation/TrickNotation';
 
 export class InputManager {
   private rotationInput: THREE.Vector2;
+  private keyboardRotationInput: THREE.Vector2;
   private currentShape: string;
   private joystick: any; // nipplejs joystick instance
   private keyState: { [key: string]: boolean };
   private shapeButtons: { [key: string]: HTMLButtonElement };
+  private isPumpButtonHeld: boolean = false;
 
   // Drawing mode properties
   private isDrawingMode: boolean = false;
@@ -18,6 +22,7 @@ export class InputManager {
 
   constructor() {
     this.rotationInput = new THREE.Vector2(0, 0);
+    this.keyboardRotationInput = new THREE.Vector2(0, 0);
     this.currentShape = 'straight';
     this.keyState = {};
     this.shapeButtons = {};
@@ -32,6 +37,9 @@ export class InputManager {
     // Create joystick (nipplejs)
     this.createJoystick();
 
+    // Create pump button for touch screens
+    this.createPumpButton();
+
     // Create drawing canvas
     this.createDrawingCanvas();
   }
@@ -41,6 +49,11 @@ export class InputManager {
     window.addEventListener('keydown', (event) => {
       this.keyState[event.code] = true;
 
+      // Space is the pump button, keep it from scrolling the page
+      if (event.code === 'Space') {
+        event.preventDefault();
+      }
+
       // Toggle drawing mode with 'D' key
       if (event.code === 'KeyD') {
         // Force drawing mode to be active when pressing D
@@ -92,6 +105,37 @@ export class InputManager {
     });
   }
 
+  private createPumpButton(): void {
+    const pumpButton = document.createElement('button');
+    pumpButton.id = 'pump-button';
+    pumpButton.innerText = 'Pump';
+    pumpButton.style.position = 'absolute';
+    pumpButton.style.bottom = '120px';
+    pumpButton.style.left = '260px';
+    pumpButton.style.width = '80px';
+    pumpButton.style.height = '80px';
+    pumpButton.style.borderRadius = '50%';
+    pumpButton.style.border = 'none';
+    pumpButton.style.backgroundColor = 'rgba(255, 255, 255, 0.5)';
+    pumpButton.style.fontWeight = 'bold';
+    pumpButton.style.zIndex = '20'; // Above the drawing canvas
+    pumpButton.style.touchAction = 'none';
+
+    // Held like the space bar: tap at the bottom to pump, hold to kill
+    pumpButton.addEventListener('pointerdown', (event) => {
+      event.stopPropagation();
+      this.isPumpButtonHeld = true;
+    });
+    const release = (): void => {
+      this.isPumpButtonHeld = false;
+    };
+    pumpButton.addEventListener('pointerup', release);
+    pumpButton.addEventListener('pointerleave', release);
+    pumpButton.addEventListener('pointercancel', release);
+
+    document.body.appendChild(pumpButton);
+  }
+
   // Shape button methods removed as per requirements
 
   // Create score display
@@ -126,16 +170,33 @@ export class InputManager {
   public getRotationInput(): THREE.Vector2 {
     // Also apply keyboard rotation if joystick is not being used
     if (this.rotationInput.length() < 0.1) {
+      this.keyboardRotationInput.set(0, 0);
+
+      // Left/Right somersault, Up/Down twist
       if (this.keyState['ArrowLeft']) {
-        this.rotationInput.x = -1;
+        this.keyboardRotationInput.x = -1;
       } else if (this.keyState['ArrowRight']) {
-        this.rotationInput.x = 1;
+        this.keyboardRotationInput.x = 1;
+      }
+      if (this.keyState['ArrowUp']) {
+        this.keyboardRotationInput.y = 1;
+      } else if (this.keyState['ArrowDown']) {
+        this.keyboardRotationInput.y = -1;
       }
+
+      return this.keyboardRotationInput;
     }
 
     return this.rotationInput;
   }
 
+  /**
+   * Whether the pump/kill button (space bar or on-screen button) is held
+   */
+  public isPumpHeld(): boolean {
+    return !!this.keyState['Space'] || this.isPumpButtonHeld;
+  }
+
   public getShapeInput(): string {
     return this.currentShape;
   }
@@ -390,19 +451,23 @@ export class InputManager {
     // THIS IS THE KEY CHANGE: Apply the drawn path to the character now
     // Get a reference to the character from the game instance
     const game = this.getGameInstance();
-    if (game && game.character) {
+    if (game) {
       console.log("Applying finished drawing to character");
       
       // Create a deep copy of the path to avoid any reference issues
       const pathCopy = this.drawnPath.map(p => ({...p}));
       
-      // Apply the custom shape
-      const success = game.character.applyCustomShape(pathCopy);
+      // Queue the custom shape for the next simulation tick
+      const classification = game.applyCustomShape(pathCopy);
       
-      if (success) {
+      if (classification) {
         console.log("Successfully applied custom shape");
-        // Show feedback to user
-        this.showDrawingFeedback("Shape applied!");
+        // Show feedback to user, naming the shape if it was recognised
+        this.showDrawingFeedback(
+          classification.shape === 'custom'
+            ? 'Custom shape applied!'
+            : `${classification.shape} (${Math.round(classification.confidence * 100)}% match)`
+        );
       } else {
         console.log("Failed to apply custom shape");
         this.showDrawingFeedback("Draw a clearer shape!");
@@ -569,7 +634,11 @@ export class InputManager {
   public displayTrick(trick: any): void {
     const trickDisplay = document.getElementById('trick-display');
     if (trickDisplay && trick) {
-      trickDisplay.textContent = `${trick.type} (${trick.rotation}°)`;
+      // Show the skill in FIG notation alongside its name where it has one
+      const notation = formatTrickNotation(trick);
+      trickDisplay.textContent = notation
+        ? `${getTrickName(trick)} ${notation} (${trick.rotation}°)`
+        : `${getTrickName(trick)} (${trick.rotation}°)`;
 
       // Animate the trick display
       trickDisplay.style.animation = 'none';
@@ -1,12 +1,74 @@
 import * as THREE from 'three';
-import { Character } from '../entities/Character';
-import { Trampoline } from '../entities/Trampoline';
+import { CharacterSimulation } from '../simulation/CharacterSimulation';
+import { TrampolineSimulation } from '../simulation/TrampolineSimulation';
+import {
+  classifyLandingPosition,
+  getBodyTilt,
+  LANDING_POSITIONS,
+  LandingPosition,
+} from '../simulation/LandingPosition';
+import { createDefaultPose } from '../simulation/Pose';
 
 // Physics constants
 const GRAVITY = 9.8;
 const MAX_BOUNCE_FORCE = 15;
-const BASE_BOUNCE_FORCE = 8;
-const ROTATION_INFLUENCE = 0.2; // How much rotation affects landing quality
+const ROTATION_INFLUENCE = 0.2; // How much rotation still going on touchdown affects landing quality
+const ROTATION_ACCELERATION = 8; // Somersault acceleration in the straight shape at full joystick input
+const TWIST_ACCELERATION = 14; // Twist acceleration in the straight shape at full joystick input
+const SHAPE_TRANSITION_TIME = 0.3; // Seconds to change pose with no shape mastery
+
+// Trampoline mat, per unit of jumper mass
+const MAT_MASS = 0.1; // Moving part of the mat and springs
+const MAT_DAMPING = 2; // Force per m/s of mat speed
+const LEG_DRIVE = 60; // Push from the legs while the mat recoils, at a perfect landing
+const PUMP_DRIVE = 40; // Extra push from a perfectly timed pump
+const PUMP_WINDOW = 0.08; // Seconds either side of maximum depth a pump still counts
+const KILL_DAMPING = 30; // Damping the legs add while holding a kill
+const LEAN_DRIFT = 0.08; // Share of take-off speed thrown sideways by leaning, per unit sin(lean)
+const MAT_SLOPE_DRIFT = 0.04; // Share of take-off speed thrown back toward the middle from the mat edge
+const CRASH_DURATION = 2; // Seconds spent lying down after a crash or bail
+const CRASH_DAMPING = 60; // Damping a body lying on the mat adds, enough to stop it bouncing
+const ROLL_SPEED = 3; // Radians per second the body falls over or stands back up at
+const STANDING_DURATION = 0.5; // Seconds standing still before the re-entry bounce
+const REENTRY_BOUNCE = 6; // Take-off speed of the bounce back into the air after a crash or kill
+
+// Share of body mass in each segment, used for the moment of inertia
+const HEAD_MASS = 0.08;
+const TORSO_MASS = 0.5;
+const ARM_MASS = 0.05; // Each arm
+const LEG_MASS = 0.16; // Each leg
+
+/**
+ * Every constant that changes the outcome of a simulation tick.
+ * Replay files store these so a run is only played back under the same rules.
+ */
+export const PHYSICS_CONSTANTS = {
+  gravity: GRAVITY,
+  maxBounceForce: MAX_BOUNCE_FORCE,
+  matMass: MAT_MASS,
+  matDamping: MAT_DAMPING,
+  legDrive: LEG_DRIVE,
+  pumpDrive: PUMP_DRIVE,
+  pumpWindow: PUMP_WINDOW,
+  killDamping: KILL_DAMPING,
+  leanDrift: LEAN_DRIFT,
+  matSlopeDrift: MAT_SLOPE_DRIFT,
+  crashDuration: CRASH_DURATION,
+  crashDamping: CRASH_DAMPING,
+  rollSpeed: ROLL_SPEED,
+  standingDuration: STANDING_DURATION,
+  reentryBounce: REENTRY_BOUNCE,
+  rotationInfluence: ROTATION_INFLUENCE,
+  rotationAcceleration: ROTATION_ACCELERATION,
+  twistAcceleration: TWIST_ACCELERATION,
+  shapeTransitionTime: SHAPE_TRANSITION_TIME,
+  headMass: HEAD_MASS,
+  torsoMass: TORSO_MASS,
+  armMass: ARM_MASS,
+  legMass: LEG_MASS,
+};
+
+export type PhysicsConstants = typeof PHYSICS_CONSTANTS;
 
 export class Physics {
   private gravity: number;
@@ -21,30 +83,39 @@ export class Physics {
     // Most physics is handled directly in the Character class
   }
 
-  public checkCollision(character: Character, trampoline: Trampoline): boolean {
+  /**
+   * Start the contact phase when the character comes down onto the mat
+   * @returns true on the tick the character touches down
+   */
+  public checkCollision(
+    character: CharacterSimulation,
+    trampoline: TrampolineSimulation
+  ): boolean {
+    // Already riding the mat
+    if (trampoline.hasJumper()) {
+      return false;
+    }
+
     // Get positions
     const characterPosition = character.getPosition();
     const trampolinePosition = trampoline.getPosition();
-    const trampolineRadius = trampoline.getRadius();
 
-    // Check if character's belly button (center of mass) is within trampoline boundaries
+    // Whichever part of the body is lowest meets the mat first
+    const contact = character.getLowestContact();
+
     // Only check for collision when character is falling down
     if (character.getVelocity().y < 0) {
-      // Calculate horizontal distance to trampoline center
-      const dx = characterPosition.x - trampolinePosition.x;
-      const dz = characterPosition.z - trampolinePosition.z;
-      const horizontalDistance = Math.sqrt(dx * dx + dz * dz);
-
-      // Check if character is within trampoline radius
-      if (horizontalDistance < trampolineRadius) {
-        // Check if character's y-position is close to trampoline
-        if (Math.abs(characterPosition.y - trampolinePosition.y) < 0.5) {
-          // Compress the trampoline on collision
-          const compressionAmount = Math.min(
-            0.5,
-            Math.abs(character.getVelocity().y) / 20
-          );
-          trampoline.compress(compressionAmount);
+      // Check if the contact point is over the bed
+      if (
+        trampoline.isOverBed(
+          characterPosition.x + contact.x,
+          characterPosition.z + contact.z
+        )
+      ) {
+        // Touch down once the contact point reaches the mat surface
+        const depth = trampolinePosition.y - (characterPosition.y + contact.y);
+        if (depth >= 0 && depth < 0.5) {
+          trampoline.land(-character.getVelocity().y);
           return true;
         }
       }
@@ -53,35 +124,104 @@ export class Physics {
     return false;
   }
 
-  public calculateLandingQuality(character: Character): number {
+  /**
+   * Which part of the body is meeting the mat
+   */
+  public calculateLandingPosition(
+    character: CharacterSimulation
+  ): LandingPosition {
+    return classifyLandingPosition(
+      character.getRotation(),
+      character.getCustomLimbPositions() || createDefaultPose()
+    );
+  }
+
+  /**
+   * Whether the character is coming down head or hands first. There is no
+   * bouncing out of that, the body collapses onto the mat instead.
+   */
+  public isCrashLanding(character: CharacterSimulation): boolean {
+    const part = character.getLowestContact().part;
+    return part === 'head' || part === 'hand' || part === 'arm';
+  }
+
+  public calculateLandingQuality(character: CharacterSimulation): number {
     // Calculate landing quality based on body orientation
-    // 1.0 is perfect landing (feet down), 0.0 is worst (head down)
+    // 1.0 is a perfect landing for the position, 0.0 is worst
+    const position = this.calculateLandingPosition(character);
+    const tilt = getBodyTilt(character.getRotation());
 
-    // Get character's rotation
-    const rotation = character.getRotation();
+    // Upright positions want the body vertical, drops want it lying flat
+    let alignment = LANDING_POSITIONS[position].upright
+      ? Math.cos(tilt)
+      : Math.abs(Math.sin(tilt));
 
-    // Check if character is upright (feet down)
-    // This is simplified - in a complete implementation, we'd check the body posture
+    // Penalise the spin the character failed to stop before touchdown
+    const rotationPenalty =
+      character.getResidualAngularVelocity() * ROTATION_INFLUENCE;
+    alignment = Math.max(0.1, alignment - rotationPenalty);
 
-    // Convert rotation to be between 0 and 1, where 1 is feet down
-    // This is a simplification - we're just using the current rotation around the z-axis
-    let feetDownness = Math.abs(Math.cos(rotation.z));
+    return alignment;
+  }
 
-    // Apply rotation penalty
-    const rotationPenalty = character.getRotationSpeed() * ROTATION_INFLUENCE;
-    feetDownness = Math.max(0.1, feetDownness - rotationPenalty);
+  /**
+   * Push the legs add while the mat recoils. A crooked landing cannot
+   * push straight down, so less of the mat's recoil is returned.
+   */
+  public calculateLegDrive(landingQuality: number): number {
+    return LEG_DRIVE * Math.max(0, Math.min(1, landingQuality));
+  }
 
-    return feetDownness;
+  /**
+   * How well a pump lined up with the bottom of the bounce
+   * @param offset Seconds between the pump and maximum depth, negative if early
+   * @returns 1 for a pump right at the bottom, falling to 0 at the window edge
+   */
+  public calculatePumpAccuracy(offset: number): number {
+    return Math.max(0, 1 - Math.abs(offset) / PUMP_WINDOW);
   }
 
-  public calculateBounceForce(landingQuality: number): number {
-    // Calculate bounce force based on landing quality
-    // Higher landing quality = higher bounce
-    const bounceForce =
-      BASE_BOUNCE_FORCE +
-      (MAX_BOUNCE_FORCE - BASE_BOUNCE_FORCE) * landingQuality;
+  /**
+   * Extra push a pump adds on top of the leg drive
+   */
+  public calculatePumpDrive(accuracy: number): number {
+    return PUMP_DRIVE * accuracy;
+  }
+
+  /**
+   * Take-off speed from the speed the mat returns the character at
+   */
+  public calculateBounceForce(launchSpeed: number): number {
+    return Math.min(MAX_BOUNCE_FORCE, Math.max(0, launchSpeed));
+  }
+
+  /**
+   * Sideways speed at take-off. Leaning throws the character the way their
+   * body points, and the mat sags toward its middle, so an off-centre
+   * landing is pushed back inward.
+   */
+  public calculateTakeoffDrift(
+    character: CharacterSimulation,
+    trampoline: TrampolineSimulation,
+    launchSpeed: number
+  ): { x: number; z: number } {
+    const characterPosition = character.getPosition();
+    const trampolinePosition = trampoline.getPosition();
+    const halfExtents = trampoline.getHalfExtents();
+
+    // The somersault tilts the body within the x-y plane
+    const lean = -Math.sin(character.getRotation().z);
+
+    // Offset from the middle as a share of the way to the edge
+    const offsetX =
+      (characterPosition.x - trampolinePosition.x) / halfExtents.x;
+    const offsetZ =
+      (characterPosition.z - trampolinePosition.z) / halfExtents.z;
 
-    return bounceForce;
+    return {
+      x: launchSpeed * (LEAN_DRIFT * lean - MAT_SLOPE_DRIFT * offsetX),
+      z: launchSpeed * -MAT_SLOPE_DRIFT * offsetZ,
+    };
   }
 
   // Helper methods
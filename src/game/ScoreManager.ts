@@ -1,94 +1,50 @@
-import { Trick } from '../entities/Character';
+import { ScoreKeeper } from '../simulation/ScoreKeeper';
+import { CrashEvent } from '../simulation/Simulation';
 
-// Base points for different trick types
-const TRICK_BASE_POINTS = {
-  'half flip': 50,
-  flip: 100,
-  'tuck flip': 150,
-  'pike flip': 200,
-  'straddle flip': 250,
-};
-
-// Multiplier for combos
-const COMBO_MULTIPLIER = 1.5;
-const COMBO_DURATION = 5000; // 5 seconds to maintain combo
+/**
+ * Persists the high score and shows score feedback for a ScoreKeeper
+ */
+export class ScoreManager {
+  private scoreKeeper: ScoreKeeper;
 
-// Multiplier for novelty (new tricks)
-const NOVELTY_BONUS = 1.2;
+  constructor(scoreKeeper: ScoreKeeper) {
+    this.scoreKeeper = scoreKeeper;
 
-export class ScoreManager {
-  private score: number = 0;
-  private highScore: number = 0;
-  private combo: number = 0;
-  private lastTrickTime: number = 0;
-  private lastTrickType: string = '';
-  private performedTricks: Set<string> = new Set();
-
-  constructor() {
     // Load high score from localStorage if available
     this.loadHighScore();
     // ScoreManager initialization complete
   }
 
+  /**
+   * Track a different ScoreKeeper, e.g. after a restart
+   */
+  public setScoreKeeper(scoreKeeper: ScoreKeeper): void {
+    this.scoreKeeper = scoreKeeper;
+    this.loadHighScore();
+  }
+
   private loadHighScore(): void {
     const savedHighScore = localStorage.getItem('trampoline-high-score');
     if (savedHighScore) {
-      this.highScore = parseInt(savedHighScore, 10);
+      this.scoreKeeper.setHighScore(parseInt(savedHighScore, 10));
     }
   }
 
   private saveHighScore(): void {
-    localStorage.setItem('trampoline-high-score', this.highScore.toString());
-  }
-
-  public calculatePoints(trick: Trick, landingQuality: number): number {
-    // Get base points for the trick type
-    const basePoints =
-      TRICK_BASE_POINTS[trick.type as keyof typeof TRICK_BASE_POINTS] || 50;
-
-    // Apply difficulty multiplier from the trick
-    let points = basePoints * trick.difficultyMultiplier;
-
-    // Apply landing quality multiplier (0.1 to 1.0)
-    points *= Math.max(0.1, landingQuality);
-
-    // Check if this is a new trick for novelty bonus
-    const trickId = `${trick.type}-${trick.shape}`;
-    let noveltyBonus = 1.0;
-
-    if (!this.performedTricks.has(trickId)) {
-      noveltyBonus = NOVELTY_BONUS;
-      this.performedTricks.add(trickId);
-    }
-
-    points *= noveltyBonus;
-
-    // Check for combo
-    const now = Date.now();
-    if (
-      now - this.lastTrickTime < COMBO_DURATION &&
-      this.lastTrickType !== trick.type
-    ) {
-      this.combo++;
-      points *= Math.pow(COMBO_MULTIPLIER, Math.min(this.combo, 3)); // Cap combo multiplier
-    } else {
-      this.combo = 0;
-    }
-
-    // Update last trick info
-    this.lastTrickTime = now;
-    this.lastTrickType = trick.type;
-
-    // Round to nearest 10
-    return Math.round(points / 10) * 10;
+    localStorage.setItem(
+      'trampoline-high-score',
+      this.scoreKeeper.getHighScore().toString()
+    );
   }
 
-  public addPoints(points: number): void {
-    this.score += points;
-
+  /**
+   * Show feedback for points the simulation has already added
+   * @param points Points awarded for the landing
+   * @param isNewHighScore Whether the points beat the high score
+   */
+  public showPointsAwarded(points: number, isNewHighScore: boolean): void {
     // Update high score if needed
-    if (this.score > this.highScore) {
-      this.highScore = this.score;
+    if (isNewHighScore) {
       this.saveHighScore();
       this.updateHighScoreDisplay();
     }
@@ -97,14 +53,32 @@ export class ScoreManager {
     this.displayPointsPopup(points);
   }
 
+  /**
+   * Show that a crash or bail broke the combo, and any points it cost
+   * @param crash Crash the simulation has already scored
+   */
+  public showCrash(crash: CrashEvent): void {
+    const text =
+      crash.kind === 'bail' ? `Bail! -${crash.penalty}` : 'Crash! Combo lost';
+    this.displayPopup(text, '#ff5252', '24px');
+  }
+
   private displayPointsPopup(points: number): void {
+    this.displayPopup(
+      `+${points}`,
+      points >= 200 ? '#FFD700' : 'white',
+      points >= 200 ? '28px' : '24px'
+    );
+  }
+
+  private displayPopup(text: string, color: string, fontSize: string): void {
     // Create a points popup element
     const popup = document.createElement('div');
     popup.className = 'points-popup';
-    popup.textContent = `+${points}`;
+    popup.textContent = text;
     popup.style.position = 'absolute';
-    popup.style.color = points >= 200 ? '#FFD700' : 'white';
-    popup.style.fontSize = points >= 200 ? '28px' : '24px';
+    popup.style.color = color;
+    popup.style.fontSize = fontSize;
     popup.style.fontWeight = 'bold';
     popup.style.textShadow = '2px 2px 4px rgba(0, 0, 0, 0.5)';
     popup.style.userSelect = 'none';
@@ -131,7 +105,7 @@ export class ScoreManager {
   private updateHighScoreDisplay(): void {
     const highScoreDisplay = document.getElementById('high-score-display');
     if (highScoreDisplay) {
-      highScoreDisplay.textContent = `High Score: ${this.highScore}`;
+      highScoreDisplay.textContent = `High Score: ${this.scoreKeeper.getHighScore()}`;
     } else {
       // Create high score display if it doesn't exist
       this.createHighScoreDisplay();
@@ -147,23 +121,19 @@ export class ScoreManager {
     highScoreDisplay.style.fontSize = '16px';
     highScoreDisplay.style.color = 'white';
     highScoreDisplay.style.textShadow = '1px 1px 2px rgba(0, 0, 0, 0.5)';
-    highScoreDisplay.textContent = `High Score: ${this.highScore}`;
+    highScoreDisplay.textContent = `High Score: ${this.scoreKeeper.getHighScore()}`;
     document.body.appendChild(highScoreDisplay);
   }
 
   public getScore(): number {
-    return this.score;
+    return this.scoreKeeper.getScore();
   }
 
   public getHighScore(): number {
-    return this.highScore;
+    return this.scoreKeeper.getHighScore();
   }
 
   public resetScore(): void {
-    this.score = 0;
-    this.combo = 0;
-    this.lastTrickTime = 0;
-    this.lastTrickType = '';
-    this.performedTricks.clear();
+    this.scoreKeeper.resetScore();
   }
 }
@@ -1,10 +1,22 @@
 import './styles.css';
 import { Game } from './game/Game';
+import {
+  ROUND_BACKYARD_TRAMPOLINE,
+  TRAMPOLINE_PRESETS,
+  TrampolinePreset,
+} from './simulation/TrampolineSpec';
 
 // Wait for DOM to be fully loaded
 window.addEventListener('DOMContentLoaded', () => {
+  // Pick a trampoline model with ?trampoline=competition or double-mini
+  const preset = new URLSearchParams(window.location.search).get('trampoline');
+  const trampolineSpec =
+    preset && Object.keys(TRAMPOLINE_PRESETS).includes(preset)
+      ? TRAMPOLINE_PRESETS[preset as TrampolinePreset]
+      : ROUND_BACKYARD_TRAMPOLINE;
+
   // Create the game instance
-  const game = new Game();
+  const game = new Game(trampolineSpec);
 
   // Set up the start button to hide instructions and start the game
   const startButton = document.getElementById('start-game');
@@ -1,20 +1,15 @@
 import * as THREE from 'three';
+import {
+  Point,
+  LimbPositions,
+  createDefaultPose,
+  SHOULDER_POSITION,
+  HIP_POSITION,
+  splitLimbPath,
+} from '../simulation/Pose';
+import { LimbPose } from '../simulation/LimbDynamics';
 
-/**
- * Point interface for 2D positions
- */
-export interface Point {
-  x: number;
-  y: number;
-}
-
-/**
- * LimbPositions interface for storing limb control points
- */
-export interface LimbPositions {
-  leftArmLegPath: Point[]; // Left side of the body (both arm and leg)
-  rightArmLegPath: Point[]; // Right side of the body (both arm and leg)
-}
+export type { Point, LimbPositions };
 
 /**
  * ShapeSystem for freeform line drawing to control limb positions
@@ -29,8 +24,8 @@ export class ShapeSystem {
   private readonly torsoCenter: Point = { x: 0, y: 1.0 }; // Center at torso position
   private readonly torsoRadius: number = 0.4; // Match torso radius in Character.ts
   private readonly TOLERANCE: number = 0.1; // Simplification tolerance
-  private readonly shoulderPosition: Point = { x: 0.4, y: 1.4 }; // Left shoulder position
-  private readonly hipPosition: Point = { x: 0.2, y: 0.5 }; // Left hip position
+  private readonly shoulderPosition: Point = SHOULDER_POSITION; // Left shoulder position
+  private readonly hipPosition: Point = HIP_POSITION; // Left hip position
 
   constructor(scene: THREE.Scene) {
     this.scene = scene;
@@ -551,15 +546,9 @@ export class ShapeSystem {
     
     console.log("Applying limb positions");
 
-    // Find the midpoint to split the path into arms and legs
-    const midIndex = Math.floor(leftPath.length / 2);
-    
-    // Split the paths
-    const leftArmPath = leftPath.slice(0, midIndex + 1);
-    const leftLegPath = leftPath.slice(midIndex);
-    
-    const rightArmPath = rightPath.slice(0, midIndex + 1);
-    const rightLegPath = rightPath.slice(midIndex);
+    // Split the paths at the hips, the same way the simulation does
+    const { arm: leftArmPath, leg: leftLegPath } = splitLimbPath(leftPath);
+    const { arm: rightArmPath, leg: rightLegPath } = splitLimbPath(rightPath);
     
     console.log(`Split paths - Arms: ${leftArmPath.length} points, Legs: ${leftLegPath.length} points`);
     
@@ -579,6 +568,53 @@ export class ShapeSystem {
     console.log("Noodle limbs created");
   }
 
+  /**
+   * Move the limb meshes onto the chains the simulation's limbs have swung
+   * to, without rebuilding them
+   */
+  public updateLimbPose(
+    leftArm: THREE.Group,
+    rightArm: THREE.Group,
+    leftLeg: THREE.Group,
+    rightLeg: THREE.Group,
+    pose: LimbPose
+  ): void {
+    this.bendNoodleLimb(leftArm, pose.leftArm);
+    this.bendNoodleLimb(rightArm, pose.rightArm);
+    this.bendNoodleLimb(leftLeg, pose.leftLeg);
+    this.bendNoodleLimb(rightLeg, pose.rightLeg);
+  }
+
+  /**
+   * Lay a noodle limb's segments and end cap along a chain of points
+   */
+  private bendNoodleLimb(limbGroup: THREE.Group, points: Point[]): void {
+    // One segment between each pair of points, then the hand or foot
+    if (limbGroup.children.length !== points.length) return;
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const segment = limbGroup.children[i];
+      const start = points[i];
+      const end = points[i + 1];
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+
+      segment.position.set((start.x + end.x) / 2, (start.y + end.y) / 2, 0);
+      segment.rotation.z = Math.atan2(dy, dx) - Math.PI / 2;
+      if (segment.userData.length > 0 && length > 0) {
+        segment.scale.y = length / segment.userData.length;
+      }
+    }
+
+    const lastPoint = points[points.length - 1];
+    limbGroup.children[points.length - 1].position.set(
+      lastPoint.x,
+      lastPoint.y,
+      0
+    );
+  }
+
   /**
    * Clear existing limb segments
    */
@@ -934,7 +970,10 @@ export class ShapeSystem {
     const midX = (start.x + end.x) / 2;
     const midY = (start.y + end.y) / 2;
     segment.position.set(midX, midY, 0);
-    
+
+    // Remember the built length so the segment can be stretched later
+    segment.userData.length = length;
+
     // Add to the limb group
     limbGroup.add(segment);
   }
@@ -1058,23 +1097,7 @@ export class ShapeSystem {
    * Generate a default straight pose with arms above head
    */
   public generateDefaultShape(): LimbPositions {
-    // Create a straight pose with arms up
-    const leftPath = [
-      this.shoulderPosition, // Left shoulder
-      { x: 0.3, y: 1.6 },    // Arm midpoint
-      { x: 0.1, y: 2.0 },    // Hand above head
-      this.hipPosition,      // Left hip
-      { x: 0.2, y: 0.0 },    // Knee
-      { x: 0.2, y: -0.6 }    // Foot pointing straight down
-    ];
-
-    // Mirror for right side
-    const rightPath = leftPath.map((p) => ({ x: -p.x, y: p.y }));
-
-    return {
-      leftArmLegPath: leftPath,
-      rightArmLegPath: rightPath,
-    };
+    return createDefaultPose();
   }
 
   /**
@@ -0,0 +1,125 @@
+import * as THREE from 'three';
+import {
+  HEAD_CENTER,
+  HEAD_RADIUS,
+  LimbPositions,
+  Point,
+  resamplePath,
+  splitLimbPath,
+  TORSO_BOTTOM,
+  TORSO_BOTTOM_RADIUS,
+  TORSO_TOP,
+  TORSO_TOP_RADIUS,
+} from './Pose';
+
+/**
+ * Parts of the body that can meet the mat or the ground
+ */
+export type BodyPart =
+  | 'head'
+  | 'torso'
+  | 'seat'
+  | 'arm'
+  | 'hand'
+  | 'knee'
+  | 'foot';
+
+/**
+ * Lowest point of a body part, relative to the character's position and
+ * in world orientation
+ */
+export interface BodyContactPoint {
+  part: BodyPart;
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Limb thickness, matching the hand and foot caps ShapeSystem draws
+const ARM_RADIUS = 0.08;
+const LEG_RADIUS = 0.13;
+
+// Points each limb is checked at
+const LIMB_SAMPLES = 8;
+
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+/**
+ * Where each part of the body reaches lowest with the character turned to
+ * the given rotation. Limbs come from the same paths the Character view
+ * draws, so what touches the mat on screen touches it in the simulation.
+ */
+export function getBodyContactPoints(
+  rotation: THREE.Euler,
+  limbPositions: LimbPositions
+): BodyContactPoint[] {
+  const points: BodyContactPoint[] = [];
+
+  // A sphere reaches lowest straight below its center
+  const addSphere = (part: BodyPart, center: Point, radius: number): void => {
+    const world = new THREE.Vector3(center.x, center.y, 0).applyEuler(rotation);
+    world.addScaledVector(DOWN, radius);
+    points.push({ part, x: world.x, y: world.y, z: world.z });
+  };
+
+  // An end of the torso cylinder reaches lowest at the rim of its disc
+  const axis = new THREE.Vector3(0, 1, 0).applyEuler(rotation);
+  const rimDrop = Math.sqrt(Math.max(0, 1 - axis.y * axis.y));
+  const addDisc = (part: BodyPart, center: Point, radius: number): void => {
+    const world = new THREE.Vector3(center.x, center.y, 0).applyEuler(rotation);
+    points.push({
+      part,
+      x: world.x,
+      y: world.y - radius * rimDrop,
+      z: world.z,
+    });
+  };
+
+  addSphere('head', HEAD_CENTER, HEAD_RADIUS);
+  addDisc('torso', TORSO_TOP, TORSO_TOP_RADIUS);
+  addDisc('seat', TORSO_BOTTOM, TORSO_BOTTOM_RADIUS);
+
+  for (const path of [
+    limbPositions.leftArmLegPath,
+    limbPositions.rightArmLegPath,
+  ]) {
+    const { arm, leg } = splitLimbPath(path);
+
+    resamplePath(arm, LIMB_SAMPLES).forEach((point, i, samples) => {
+      addSphere(i === samples.length - 1 ? 'hand' : 'arm', point, ARM_RADIUS);
+    });
+
+    // The top of the leg sits with the hips, the rest bends at the knee
+    resamplePath(leg, LIMB_SAMPLES).forEach((point, i, samples) => {
+      let part: BodyPart = 'knee';
+      if (i === 0) part = 'seat';
+      if (i === samples.length - 1) part = 'foot';
+      addSphere(part, point, LEG_RADIUS);
+    });
+  }
+
+  return points;
+}
+
+/**
+ * The point that would touch a flat surface first
+ */
+export function findLowestContact(
+  points: BodyContactPoint[]
+): BodyContactPoint {
+  return points.reduce((lowest, point) =>
+    point.y < lowest.y ? point : lowest
+  );
+}
+
+/**
+ * Height of the lowest point of a part, or Infinity if it has none
+ */
+export function getPartHeight(
+  points: BodyContactPoint[],
+  part: BodyPart
+): number {
+  return points
+    .filter((point) => point.part === part)
+    .reduce((lowest, point) => Math.min(lowest, point.y), Infinity);
+}
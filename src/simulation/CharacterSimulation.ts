@@ -0,0 +1,713 @@
+import * as THREE from 'three';
+import {
+  blendPoses,
+  createDefaultPose,
+  FRONT_SOMERSAULT_SIGN,
+  LimbPositions,
+  resamplePose,
+} from './Pose';
+import { CharacterStats, DEFAULT_CHARACTER_STATS } from './CharacterStats';
+import { LimbDynamics, LimbPose } from './LimbDynamics';
+import {
+  BodyContactPoint,
+  findLowestContact,
+  getBodyContactPoints,
+} from './BodyContact';
+import { LandingPosition } from './LandingPosition';
+import {
+  findTrick,
+  SomersaultDirection,
+  TrickDefinition,
+} from './TrickCatalog';
+import { classifyShape } from './ShapeClassifier';
+import { PHYSICS_CONSTANTS } from '../game/Physics';
+import {
+  calculateMomentOfInertia,
+  calculateTwistInertia,
+  STRAIGHT_MOMENT_OF_INERTIA,
+  STRAIGHT_TWIST_INERTIA,
+} from './Inertia';
+
+// Define trick types
+export interface Trick {
+  type: string;
+  rotation: number;
+  twist?: number; // Degrees of twist around the long axis
+  halfTwistsBySomersault?: number[]; // Twist in each somersault, first to last
+  direction?: SomersaultDirection; // Set for tricks with somersault rotation
+  shape?: string;
+  difficultyMultiplier: number;
+  landing?: LandingPosition; // Set when the jump ends anywhere but the feet
+  limbPositions?: LimbPositions; // Pose of a custom shape, to compare with others
+}
+
+/**
+ * A change of pose on its way from one shape to the next
+ */
+interface PoseTransition {
+  from: LimbPositions; // Resampled pose the change started from
+  to: LimbPositions; // Resampled pose being moved to
+  target: LimbPositions | null; // Pose as applied, null for straight
+  shape: string;
+  progress: number; // 0 at the start, 1 once the pose is reached
+}
+
+/**
+ * Joystick-style rotation input, x is somersault and y is twist
+ */
+export interface RotationInput {
+  x: number;
+  y: number;
+}
+
+// Starting height of the character's center of mass
+const START_HEIGHT = 5;
+const GROUND_HEIGHT = -2; // Floor the trampoline stands on
+
+// Limbs used while no custom shape is applied
+const DEFAULT_POSE = createDefaultPose();
+
+/**
+ * Bring an angle into the range -π to π
+ */
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+// Limits on how much a shape's inertia can scale trick difficulty
+const MIN_SHAPE_DIFFICULTY = 0.5;
+const MAX_SHAPE_DIFFICULTY = 2.5;
+
+// Rotation still short of a full half twist or somersault that counts anyway
+const TWIST_TOLERANCE = Math.PI / 4;
+const SOMERSAULT_TOLERANCE = Math.PI / 4;
+
+/**
+ * Physics state of the character with no rendering attached.
+ * The Character entity is a view that reads from this each frame.
+ */
+export class CharacterSimulation {
+  // Physics properties
+  private position: THREE.Vector3;
+  private previousPosition: THREE.Vector3;
+  private velocity: THREE.Vector3;
+  private lastStepVelocity: THREE.Vector3;
+  private rotation: THREE.Euler;
+  private previousRotation: THREE.Euler;
+  private rotationSpeed: number;
+  private angularMomentum: number;
+  private momentOfInertia: number;
+  private twistSpeed: number;
+  private twistMomentum: number;
+  private twistInertia: number;
+  private currentShape: string;
+  private customLimbPositions: LimbPositions | null = null;
+  private poseTransition: PoseTransition | null = null;
+  // Inertia of the last pose fully reached, which sets trick difficulty
+  private reachedMomentOfInertia: number;
+  private readonly stats: CharacterStats;
+  private limbDynamics: LimbDynamics;
+  private shapeVersion: number = 0;
+  private lastRotation: number;
+  // Signed rotation since the last bounce, so rocking back and forth cancels
+  private netSomersault: number;
+  private netTwist: number;
+  // Twist made during each somersault of this jump, in radians
+  private twistPerSomersault: number[];
+  private isInAir: boolean;
+  private onMat: boolean = false;
+  private onGround: boolean = false;
+  private currentTrick: Trick | null;
+  // Somersault angle the body rolls to when down after a crash, null in play
+  private restAngle: number | null = null;
+
+  constructor(stats: CharacterStats = DEFAULT_CHARACTER_STATS) {
+    this.stats = stats;
+    this.position = new THREE.Vector3(0, START_HEIGHT, 0);
+    this.previousPosition = this.position.clone();
+    this.velocity = new THREE.Vector3(0, 0, 0);
+    this.lastStepVelocity = this.velocity.clone();
+    // Twist (y) turns the body about its long axis before the somersault (z)
+    this.rotation = new THREE.Euler(0, 0, 0, 'ZYX');
+    this.previousRotation = this.rotation.clone();
+    this.rotationSpeed = 0;
+    this.angularMomentum = 0;
+    this.momentOfInertia = STRAIGHT_MOMENT_OF_INERTIA;
+    this.reachedMomentOfInertia = STRAIGHT_MOMENT_OF_INERTIA;
+    this.twistSpeed = 0;
+    this.twistMomentum = 0;
+    this.twistInertia = STRAIGHT_TWIST_INERTIA;
+    this.currentShape = 'straight';
+    this.limbDynamics = new LimbDynamics(DEFAULT_POSE);
+    this.lastRotation = 0;
+    this.netSomersault = 0;
+    this.netTwist = 0;
+    this.twistPerSomersault = [];
+    this.isInAir = true;
+    this.currentTrick = null;
+  }
+
+  /**
+   * Advance the character by one fixed timestep
+   */
+  public step(
+    deltaTime: number,
+    rotationInput: RotationInput,
+    _shapeInput: string
+  ): void {
+    // Remember the last simulation state for render interpolation
+    this.previousPosition.copy(this.position);
+    this.previousRotation.copy(this.rotation);
+
+    this.updatePoseTransition(deltaTime);
+
+    // Update position based on velocity. On the mat the trampoline moves
+    // the character vertically through rideMat.
+    this.position.x += this.velocity.x * deltaTime;
+    this.position.z += this.velocity.z * deltaTime;
+
+    if (this.onMat) {
+      this.isInAir = false;
+    } else {
+      // Apply gravity
+      this.velocity.y -= PHYSICS_CONSTANTS.gravity * deltaTime;
+      this.position.y += this.velocity.y * deltaTime;
+
+      // Ground collision (in case character misses trampoline), at
+      // whichever part of the body reaches the floor first
+      const lowestOffset = this.getLowestContact().y;
+      if (this.position.y + lowestOffset < GROUND_HEIGHT) {
+        this.position.y = GROUND_HEIGHT - lowestOffset;
+        this.velocity.set(0, 0, 0);
+        this.isInAir = false;
+        this.onGround = true;
+      } else {
+        this.isInAir = true;
+      }
+    }
+
+    // Update rotation based on input
+    if (this.isInAir) {
+      // Input is a torque. It speeds the spin up or slows it down, and once
+      // let go the body keeps turning until the player counters it. The
+      // torque is scaled so the straight shape reaches the tuned
+      // acceleration. Momentum is shared by every shape, so tucking spins
+      // faster and opening up slows the rotation down.
+      const control = this.stats.airControl * deltaTime;
+      this.angularMomentum +=
+        rotationInput.x *
+        PHYSICS_CONSTANTS.rotationAcceleration *
+        STRAIGHT_MOMENT_OF_INERTIA *
+        control;
+      this.rotationSpeed = this.angularMomentum / this.momentOfInertia;
+
+      // Twisting works the same way about the long axis
+      this.twistMomentum +=
+        rotationInput.y *
+        PHYSICS_CONSTANTS.twistAcceleration *
+        STRAIGHT_TWIST_INERTIA *
+        control;
+      this.twistSpeed = this.twistMomentum / this.twistInertia;
+
+      // Apply rotation
+      this.rotation.z += this.rotationSpeed * deltaTime;
+      this.rotation.y += this.twistSpeed * deltaTime;
+
+      // Track rotation for tricks
+      const rotationChange = this.rotation.z - this.lastRotation;
+      this.netSomersault += rotationChange;
+      this.netTwist += this.twistSpeed * deltaTime;
+      const somersault = Math.floor(
+        Math.abs(this.netSomersault) / (Math.PI * 2)
+      );
+      while (this.twistPerSomersault.length <= somersault) {
+        this.twistPerSomersault.push(0);
+      }
+      this.twistPerSomersault[somersault] += this.twistSpeed * deltaTime;
+      this.lastRotation = this.rotation.z;
+
+      // Detect tricks
+      this.detectTrick();
+    } else {
+      // Reset rotation when on ground
+      this.rotationSpeed = 0;
+      this.angularMomentum = 0;
+      this.twistSpeed = 0;
+      this.twistMomentum = 0;
+
+      // Fall over or get back up after a crash
+      if (this.restAngle !== null) {
+        const maxTurn = PHYSICS_CONSTANTS.rollSpeed * deltaTime;
+        const turn = this.restAngle - this.rotation.z;
+        this.rotation.z += Math.max(-maxTurn, Math.min(maxTurn, turn));
+        this.lastRotation = this.rotation.z;
+      }
+    }
+
+    this.stepLimbs(deltaTime);
+  }
+
+  /**
+   * Let the limbs react to how the body moved. The mat moves the character
+   * between steps, so this uses the velocity change since the last step.
+   */
+  private stepLimbs(deltaTime: number): void {
+    // Limbs feel gravity minus the body's own acceleration, which is
+    // nothing in free fall and a hard shove down on landing
+    const acceleration = this.velocity
+      .clone()
+      .sub(this.lastStepVelocity)
+      .divideScalar(deltaTime);
+    const force = new THREE.Vector3(0, -PHYSICS_CONSTANTS.gravity, 0)
+      .sub(acceleration)
+      .applyQuaternion(
+        new THREE.Quaternion().setFromEuler(this.rotation).invert()
+      );
+    this.lastStepVelocity.copy(this.velocity);
+
+    this.limbDynamics.step(deltaTime, {
+      force: { x: force.x, y: force.y },
+      somersaultSpeed: this.rotationSpeed,
+      twistSpeed: this.twistSpeed,
+    });
+  }
+
+  /**
+   * Start moving into a shape produced by the shape system. A drawing
+   * close to a canonical shape takes its name, so a drawn pike scores as
+   * a pike, and anything else is 'custom'.
+   */
+  public setCustomShape(limbPositions: LimbPositions): void {
+    this.startPoseTransition(limbPositions, classifyShape(limbPositions).shape);
+  }
+
+  /**
+   * Start moving back to the default straight shape
+   */
+  public resetToDefaultShape(): void {
+    this.startPoseTransition(null, 'straight');
+  }
+
+  /**
+   * Blend from wherever the limbs are now to a new pose. The shape only
+   * counts for tricks once the blend has finished.
+   */
+  private startPoseTransition(
+    target: LimbPositions | null,
+    shape: string
+  ): void {
+    this.poseTransition = {
+      from: resamplePose(this.customLimbPositions || DEFAULT_POSE),
+      to: resamplePose(target || DEFAULT_POSE),
+      target,
+      shape,
+      progress: 0,
+    };
+    this.shapeVersion++;
+  }
+
+  /**
+   * Move the limbs along the current pose transition, faster with more
+   * shape mastery
+   */
+  private updatePoseTransition(deltaTime: number): void {
+    const transition = this.poseTransition;
+    if (!transition) return;
+
+    transition.progress = Math.min(
+      1,
+      transition.progress +
+        (deltaTime * this.stats.shapeMastery) /
+          PHYSICS_CONSTANTS.shapeTransitionTime
+    );
+
+    if (transition.progress >= 1) {
+      // Shape reached
+      this.poseTransition = null;
+      this.currentShape = transition.shape;
+      this.setPose(transition.target);
+      this.reachedMomentOfInertia = this.momentOfInertia;
+      return;
+    }
+
+    // Ease in and out so the limbs start and stop smoothly
+    const t = transition.progress;
+    const eased = t * t * (3 - 2 * t);
+    this.setPose(blendPoses(transition.from, transition.to, eased));
+  }
+
+  /**
+   * Put the limbs in a pose, null for straight, keeping momentum
+   */
+  private setPose(limbPositions: LimbPositions | null): void {
+    this.customLimbPositions = limbPositions;
+    this.momentOfInertia = limbPositions
+      ? calculateMomentOfInertia(limbPositions)
+      : STRAIGHT_MOMENT_OF_INERTIA;
+    this.twistInertia = limbPositions
+      ? calculateTwistInertia(limbPositions)
+      : STRAIGHT_TWIST_INERTIA;
+    this.limbDynamics.setTarget(limbPositions || DEFAULT_POSE);
+    this.updateRotationSpeeds();
+  }
+
+  /**
+   * Recompute spin rates after the inertia changed, keeping momentum
+   */
+  private updateRotationSpeeds(): void {
+    this.rotationSpeed = this.angularMomentum / this.momentOfInertia;
+    this.twistSpeed = this.twistMomentum / this.twistInertia;
+  }
+
+  /**
+   * Name the skill performed so far this jump from its net rotation.
+   * Turning one way and back again cancels out, so rocking counts for
+   * nothing.
+   */
+  private detectTrick(): void {
+    const halfTwists = Math.floor(
+      (Math.abs(this.netTwist) + TWIST_TOLERANCE) / Math.PI
+    );
+    const somersaults = Math.floor(
+      (Math.abs(this.netSomersault) + SOMERSAULT_TOLERANCE) / (Math.PI * 2)
+    );
+
+    // Twisting skills take precedence over plain somersaults. Twisting
+    // with the body upright only counts without much somersault.
+    if (
+      halfTwists > 0 &&
+      (somersaults > 0 || Math.abs(this.netSomersault) < Math.PI / 2)
+    ) {
+      const trick = this.findTrick(somersaults, halfTwists);
+      if (trick) {
+        this.currentTrick = this.createTrick(trick, halfTwists);
+        return;
+      }
+    }
+
+    // Twisting somersaults the catalog has no name for, such as a double
+    // full, score as the plain somersault but keep the twist measured
+    if (somersaults > 0) {
+      const trick = this.findTrick(somersaults, 0);
+      this.currentTrick = trick && this.createTrick(trick, halfTwists);
+      return;
+    }
+
+    // Short of a full somersault, half way round still counts
+    const trick =
+      Math.abs(this.netSomersault) >= Math.PI ? this.findTrick(0.5, 0) : null;
+    this.currentTrick = trick && this.createTrick(trick, 0);
+  }
+
+  /**
+   * Look up the skill this jump has performed so far in the catalog
+   */
+  private findTrick(
+    somersaults: number,
+    halfTwists: number
+  ): TrickDefinition | null {
+    return findTrick({
+      somersaults,
+      direction: somersaults > 0 ? this.getSomersaultDirection() : null,
+      halfTwists,
+      shape: this.currentShape,
+    });
+  }
+
+  /**
+   * Way round the body has turned this jump
+   */
+  private getSomersaultDirection(): SomersaultDirection {
+    return Math.sign(this.netSomersault) === FRONT_SOMERSAULT_SIGN
+      ? 'front'
+      : 'back';
+  }
+
+  /**
+   * Trick for a catalog entry, with the half twists measured this jump
+   */
+  private createTrick(definition: TrickDefinition, halfTwists: number): Trick {
+    const trick: Trick = {
+      type: definition.name,
+      rotation: definition.somersaults * 360,
+      shape: this.currentShape,
+      difficultyMultiplier: definition.difficulty * this.getShapeDifficulty(),
+    };
+    if (halfTwists > 0) {
+      trick.twist = halfTwists * 180;
+      trick.halfTwistsBySomersault =
+        definition.somersaults >= 1
+          ? this.splitTwist(definition.somersaults, halfTwists)
+          : [halfTwists];
+    }
+    if (definition.somersaults > 0) {
+      trick.direction = this.getSomersaultDirection();
+    }
+    if (this.currentShape === 'custom' && this.customLimbPositions) {
+      trick.limbPositions = this.customLimbPositions;
+    }
+    return trick;
+  }
+
+  /**
+   * Share a jump's half twists out between its somersaults by when the
+   * twisting happened
+   */
+  private splitTwist(somersaults: number, halfTwists: number): number[] {
+    const split: number[] = [];
+    let twist = 0;
+    let counted = 0;
+
+    for (let i = 0; i < somersaults; i++) {
+      // Twist after the last somersault comes round still belongs to it
+      const during =
+        i === somersaults - 1
+          ? this.twistPerSomersault.slice(i)
+          : this.twistPerSomersault.slice(i, i + 1);
+      twist += during.reduce((sum, value) => sum + value, 0);
+
+      const through = Math.min(
+        halfTwists,
+        Math.max(
+          counted,
+          Math.floor((Math.abs(twist) + TWIST_TOLERANCE) / Math.PI)
+        )
+      );
+      split.push(through - counted);
+      counted = through;
+    }
+
+    return split;
+  }
+
+  /**
+   * How hard the last shape reached is to rotate in, relative to straight (1.0)
+   */
+  public getShapeDifficulty(): number {
+    const ratio = this.reachedMomentOfInertia / STRAIGHT_MOMENT_OF_INERTIA;
+    return Math.min(
+      MAX_SHAPE_DIFFICULTY,
+      Math.max(MIN_SHAPE_DIFFICULTY, ratio)
+    );
+  }
+
+  /**
+   * Independent copy of the character in its current state, to look ahead
+   * without disturbing the original
+   */
+  public clone(): CharacterSimulation {
+    const copy: CharacterSimulation = Object.assign(
+      Object.create(CharacterSimulation.prototype),
+      this
+    );
+
+    // Everything a step changes in place needs its own copy
+    copy.position = this.position.clone();
+    copy.previousPosition = this.previousPosition.clone();
+    copy.velocity = this.velocity.clone();
+    copy.lastStepVelocity = this.lastStepVelocity.clone();
+    copy.rotation = this.rotation.clone();
+    copy.previousRotation = this.previousRotation.clone();
+    copy.poseTransition = this.poseTransition && { ...this.poseTransition };
+    copy.limbDynamics = this.limbDynamics.clone();
+    copy.twistPerSomersault = [...this.twistPerSomersault];
+    return copy;
+  }
+
+  /**
+   * Move with the mat surface while in contact with it, resting on the
+   * lowest part of the body. The body grips the mat, so any sideways travel
+   * stops.
+   */
+  public rideMat(surfaceHeight: number, surfaceVelocity: number): void {
+    this.onMat = true;
+    this.position.y = surfaceHeight - this.getLowestContact().y;
+    this.velocity.set(0, surfaceVelocity, 0);
+  }
+
+  /**
+   * Sideways speed the character leaves the mat with
+   */
+  public setHorizontalVelocity(x: number, z: number): void {
+    this.velocity.x = x;
+    this.velocity.z = z;
+  }
+
+  /**
+   * Collapse after a crash or bail. All spin stops and the body falls over
+   * onto whichever side is closest.
+   */
+  public crash(): void {
+    // Wrap the angles so the body rolls the short way round
+    this.rotation.set(
+      0,
+      wrapAngle(this.rotation.y),
+      wrapAngle(this.rotation.z)
+    );
+    this.previousRotation.copy(this.rotation);
+    this.lastRotation = this.rotation.z;
+    this.restAngle = this.rotation.z >= 0 ? Math.PI / 2 : -Math.PI / 2;
+    this.angularMomentum = 0;
+    this.twistMomentum = 0;
+    this.updateRotationSpeeds();
+    this.netSomersault = 0;
+    this.netTwist = 0;
+    this.twistPerSomersault = [];
+    this.currentTrick = null;
+  }
+
+  /**
+   * Start getting back up. After missing the mat the character climbs back
+   * on in the middle of it first.
+   */
+  public recover(): void {
+    if (this.onGround) {
+      this.position.set(0, this.position.y, 0);
+      this.previousPosition.copy(this.position);
+      this.onGround = false;
+    }
+    this.velocity.set(0, 0, 0);
+    this.restAngle = 0;
+  }
+
+  public bounce(force: number): void {
+    // Apply bounce force
+    this.onMat = false;
+    this.onGround = false;
+    this.restAngle = null;
+    this.velocity.y = force;
+
+    // Reset rotation tracking for next jump
+    this.netSomersault = 0;
+    this.netTwist = 0;
+    this.twistPerSomersault = [];
+    this.currentTrick = null;
+  }
+
+  public isOnMat(): boolean {
+    return this.onMat;
+  }
+
+  public isOnGround(): boolean {
+    return this.onGround;
+  }
+
+  /**
+   * Whether the body has finished falling over or getting back up
+   */
+  public isAtRest(): boolean {
+    return this.restAngle === null || this.rotation.z === this.restAngle;
+  }
+
+  public getCurrentTrick(): Trick | null {
+    return this.currentTrick;
+  }
+
+  // Getters for physics properties
+  public getPosition(): THREE.Vector3 {
+    return this.position.clone();
+  }
+
+  public getPreviousPosition(): THREE.Vector3 {
+    return this.previousPosition.clone();
+  }
+
+  public getVelocity(): THREE.Vector3 {
+    return this.velocity.clone();
+  }
+
+  public getRotation(): THREE.Euler {
+    return this.rotation.clone();
+  }
+
+  public getPreviousRotation(): THREE.Euler {
+    return this.previousRotation.clone();
+  }
+
+  public getRotationSpeed(): number {
+    return this.rotationSpeed;
+  }
+
+  public getTwistSpeed(): number {
+    return this.twistSpeed;
+  }
+
+  /**
+   * Signed somersault rotation since the last bounce, front is positive
+   */
+  public getNetSomersault(): number {
+    return this.netSomersault * FRONT_SOMERSAULT_SIGN;
+  }
+
+  public getNetTwist(): number {
+    return this.netTwist;
+  }
+
+  public getAngularMomentum(): number {
+    return this.angularMomentum;
+  }
+
+  public getMomentOfInertia(): number {
+    return this.momentOfInertia;
+  }
+
+  public getCurrentShape(): string {
+    return this.currentShape;
+  }
+
+  public getCustomLimbPositions(): LimbPositions | null {
+    return this.customLimbPositions;
+  }
+
+  /**
+   * How far into a change of shape the limbs are (0 to 1), or null when
+   * the current shape has been reached
+   */
+  public getShapeTransitionProgress(): number | null {
+    return this.poseTransition ? this.poseTransition.progress : null;
+  }
+
+  /**
+   * How fast the body is still turning, somersault and twist together
+   */
+  public getResidualAngularVelocity(): number {
+    return Math.sqrt(
+      this.rotationSpeed * this.rotationSpeed +
+        this.twistSpeed * this.twistSpeed
+    );
+  }
+
+  public getStats(): CharacterStats {
+    return this.stats;
+  }
+
+  /**
+   * Where the limbs are drawn, lagging behind the shape while they settle
+   */
+  public getLimbPose(): LimbPose {
+    return this.limbDynamics.getPose();
+  }
+
+  public getPreviousLimbPose(): LimbPose {
+    return this.limbDynamics.getPreviousPose();
+  }
+
+  /**
+   * Lowest point of the body relative to the character's position
+   */
+  public getLowestContact(): BodyContactPoint {
+    return findLowestContact(
+      getBodyContactPoints(
+        this.rotation,
+        this.customLimbPositions || DEFAULT_POSE
+      )
+    );
+  }
+
+  /**
+   * Incremented on every shape change so views know when to rebuild limbs
+   */
+  public getShapeVersion(): number {
+    return this.shapeVersion;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Abilities that set one character apart from another, like the character
+ * upgrades in plan.md. Each is a multiplier where 1 is an untrained
+ * character.
+ */
+export interface CharacterStats {
+  shapeMastery: number; // How fast the body moves from one pose to the next
+  airControl: number; // How much torque the joystick puts into spinning
+}
+
+export const DEFAULT_CHARACTER_STATS: CharacterStats = {
+  shapeMastery: 1,
+  airControl: 1,
+};
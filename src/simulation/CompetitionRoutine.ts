@@ -0,0 +1,196 @@
+import { Trick } from './CharacterSimulation';
+import { CrashEvent, LandingEvent } from './Simulation';
+import { JudgedSkill, RoutineJudgement, scoreRoutine } from './JudgePanel';
+import { formatTrickNotation } from './TrickNotation';
+
+/**
+ * Ten-skill competition routine, scored by the judge panel under these
+ * rules:
+ *
+ *   1. Straight bounces before the first skill are the run-up and are
+ *      not judged. The routine starts with the first skill.
+ *   2. A routine is ten skills, each on its own bounce. It is complete
+ *      when the tenth skill lands.
+ *   3. A repeated skill scores no difficulty. A skill repeats an earlier
+ *      one if it has the same notation, direction, shape and landing.
+ *   4. A bounce with no skill interrupts the routine. It ends there and
+ *      only the skills already performed are scored, so every skill left
+ *      out costs its execution, difficulty and time of flight.
+ *   5. Killing a bounce before the tenth skill stops the routine early.
+ *      The skill landed into the kill still counts.
+ *   6. Missing the mat ends the routine with a deduction of
+ *      LEAVING_MAT_PENALTY, and the skill that left the mat does not
+ *      count.
+ *   7. A crash ends the routine with a deduction of CRASH_PENALTY, and
+ *      the skill crashed on does not count.
+ */
+
+export const ROUTINE_LENGTH = 10;
+
+// Taken off the total for coming off the bed or landing head first
+const LEAVING_MAT_PENALTY = 1;
+const CRASH_PENALTY = 1;
+
+/**
+ * Why a routine ended
+ */
+export type RoutineEnding =
+  | 'complete'
+  | 'interrupted'
+  | 'stopped'
+  | 'left mat'
+  | 'crash';
+
+/**
+ * A broken rule and what it cost
+ */
+export interface RoutineViolation {
+  rule: 'repeat' | 'interruption' | 'stopped' | 'left mat' | 'crash';
+  skillNumber: number; // 1-based position in the routine
+  penalty: number; // Taken off the total, on top of any marks lost
+  message: string;
+}
+
+/**
+ * Final marks for a routine
+ */
+export interface RoutineResult {
+  ending: RoutineEnding;
+  judgement: RoutineJudgement | null; // Null if no skill counted
+  violations: RoutineViolation[];
+  score: number; // Judged total less penalties, never below zero
+}
+
+/**
+ * Same skill for the repetition rule
+ */
+function getSkillKey(trick: Trick): string {
+  return [
+    formatTrickNotation(trick) ?? trick.type,
+    trick.direction ?? '',
+    trick.shape ?? '',
+    trick.landing ?? 'feet',
+  ].join('|');
+}
+
+/**
+ * Follows one routine bounce by bounce. Feed it every landing and crash
+ * from the simulation until it returns a result.
+ */
+export class CompetitionRoutine {
+  private skills: JudgedSkill[] = [];
+  private performed: Set<string> = new Set();
+  private violations: RoutineViolation[] = [];
+  private result: RoutineResult | null = null;
+
+  /**
+   * Count a bounce off the mat
+   * @returns The result if this bounce ended the routine
+   */
+  public addBounce(landing: LandingEvent): RoutineResult | null {
+    if (this.result) return null;
+
+    const skillNumber = this.skills.length + 1;
+    const { trick, judgedSkill } = landing;
+    if (!trick || !judgedSkill) {
+      // Still in the run-up
+      if (this.skills.length === 0) return null;
+      return this.finish('interrupted', {
+        rule: 'interruption',
+        skillNumber,
+        penalty: 0,
+        message: `Bounce ${skillNumber} had no skill`,
+      });
+    }
+
+    const key = getSkillKey(trick);
+    if (this.performed.has(key)) {
+      this.violations.push({
+        rule: 'repeat',
+        skillNumber,
+        penalty: 0,
+        message: `Skill ${skillNumber} repeats an earlier skill and scores no difficulty`,
+      });
+      this.skills.push({ ...judgedSkill, difficulty: 0 });
+    } else {
+      this.performed.add(key);
+      this.skills.push(judgedSkill);
+    }
+
+    if (this.skills.length === ROUTINE_LENGTH) {
+      return this.finish('complete');
+    }
+    if (landing.isKill) {
+      return this.finish('stopped', {
+        rule: 'stopped',
+        skillNumber,
+        penalty: 0,
+        message: `Stopped after ${skillNumber} of ${ROUTINE_LENGTH} skills`,
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Count a crash or bail, which always ends a routine under way
+   * @returns The result if a routine was under way
+   */
+  public addCrash(crash: CrashEvent): RoutineResult | null {
+    if (this.result || this.skills.length === 0) return null;
+
+    const skillNumber = this.skills.length + 1;
+    if (crash.kind === 'bail') {
+      return this.finish('left mat', {
+        rule: 'left mat',
+        skillNumber,
+        penalty: LEAVING_MAT_PENALTY,
+        message: `Left the mat on skill ${skillNumber}`,
+      });
+    }
+    return this.finish('crash', {
+      rule: 'crash',
+      skillNumber,
+      penalty: CRASH_PENALTY,
+      message: `Crashed on skill ${skillNumber}`,
+    });
+  }
+
+  /**
+   * Skills counted so far
+   */
+  public getSkillCount(): number {
+    return this.skills.length;
+  }
+
+  /**
+   * Rules broken so far
+   */
+  public getViolations(): RoutineViolation[] {
+    return this.violations;
+  }
+
+  public isFinished(): boolean {
+    return this.result !== null;
+  }
+
+  private finish(
+    ending: RoutineEnding,
+    violation?: RoutineViolation
+  ): RoutineResult {
+    if (violation) {
+      this.violations.push(violation);
+    }
+
+    const judgement = scoreRoutine(this.skills);
+    const penalty = this.violations.reduce((sum, v) => sum + v.penalty, 0);
+    const score = Math.max(0, (judgement?.total ?? 0) - penalty);
+
+    this.result = {
+      ending,
+      judgement,
+      violations: this.violations,
+      score: Math.round(score * 1000) / 1000,
+    };
+    return this.result;
+  }
+}
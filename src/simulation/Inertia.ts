@@ -0,0 +1,108 @@
+import { PHYSICS_CONSTANTS } from '../game/Physics';
+import {
+  Point,
+  LimbPositions,
+  createDefaultPose,
+  HEAD_CENTER,
+  HEAD_RADIUS,
+  resamplePath,
+  splitLimbPath,
+  TORSO_BOTTOM,
+  TORSO_BOTTOM_RADIUS,
+  TORSO_TOP,
+  TORSO_TOP_RADIUS,
+} from './Pose';
+
+// Mass points each limb is divided into
+const LIMB_SAMPLES = 12;
+
+// Torso treated as a cylinder of its average radius
+const TORSO_CENTER: Point = {
+  x: (TORSO_BOTTOM.x + TORSO_TOP.x) / 2,
+  y: (TORSO_BOTTOM.y + TORSO_TOP.y) / 2,
+};
+const TORSO_LENGTH = TORSO_TOP.y - TORSO_BOTTOM.y;
+const TORSO_RADIUS = (TORSO_BOTTOM_RADIUS + TORSO_TOP_RADIUS) / 2;
+
+interface MassPoint {
+  x: number;
+  y: number;
+  mass: number;
+}
+
+/**
+ * Spread a limb's mass evenly along its path
+ */
+function limbMassPoints(path: Point[], mass: number): MassPoint[] {
+  if (path.length < 2) return [];
+
+  const samples = resamplePath(path, LIMB_SAMPLES);
+  return samples.map((p) => ({ ...p, mass: mass / samples.length }));
+}
+
+/**
+ * Head, torso and limbs of a pose as point masses
+ */
+function poseMassPoints(limbPositions: LimbPositions): MassPoint[] {
+  const left = splitLimbPath(limbPositions.leftArmLegPath);
+  const right = splitLimbPath(limbPositions.rightArmLegPath);
+
+  return [
+    { ...HEAD_CENTER, mass: PHYSICS_CONSTANTS.headMass },
+    { ...TORSO_CENTER, mass: PHYSICS_CONSTANTS.torsoMass },
+    ...limbMassPoints(left.arm, PHYSICS_CONSTANTS.armMass),
+    ...limbMassPoints(right.arm, PHYSICS_CONSTANTS.armMass),
+    ...limbMassPoints(left.leg, PHYSICS_CONSTANTS.legMass),
+    ...limbMassPoints(right.leg, PHYSICS_CONSTANTS.legMass),
+  ];
+}
+
+/**
+ * Moment of inertia of a pose about its own center of mass, for rotation
+ * in the drawing plane. Spreading the limbs raises it, tucking them lowers it.
+ */
+export function calculateMomentOfInertia(limbPositions: LimbPositions): number {
+  const points = poseMassPoints(limbPositions);
+
+  // Center of mass of the whole pose
+  const totalMass = points.reduce((sum, p) => sum + p.mass, 0);
+  const centerX = points.reduce((sum, p) => sum + p.x * p.mass, 0) / totalMass;
+  const centerY = points.reduce((sum, p) => sum + p.y * p.mass, 0) / totalMass;
+
+  // Point masses plus the head and torso's own inertia (sphere and cylinder)
+  let inertia =
+    0.4 * PHYSICS_CONSTANTS.headMass * HEAD_RADIUS * HEAD_RADIUS +
+    (PHYSICS_CONSTANTS.torsoMass *
+      (3 * TORSO_RADIUS * TORSO_RADIUS + TORSO_LENGTH * TORSO_LENGTH)) /
+      12;
+  for (const p of points) {
+    const dx = p.x - centerX;
+    const dy = p.y - centerY;
+    inertia += p.mass * (dx * dx + dy * dy);
+  }
+
+  return inertia;
+}
+
+/**
+ * Moment of inertia of a pose about the body's long axis, for twisting.
+ * Only sideways distance from the spine counts, so wide arms slow a twist.
+ */
+export function calculateTwistInertia(limbPositions: LimbPositions): number {
+  // Head and torso spin about their own axis (sphere and cylinder)
+  let inertia =
+    0.4 * PHYSICS_CONSTANTS.headMass * HEAD_RADIUS * HEAD_RADIUS +
+    0.5 * PHYSICS_CONSTANTS.torsoMass * TORSO_RADIUS * TORSO_RADIUS;
+
+  for (const p of poseMassPoints(limbPositions).slice(2)) {
+    inertia += p.mass * p.x * p.x;
+  }
+
+  return inertia;
+}
+
+// Inertia of the straight shape, which the rotation tuning is based on
+export const STRAIGHT_MOMENT_OF_INERTIA =
+  calculateMomentOfInertia(createDefaultPose());
+export const STRAIGHT_TWIST_INERTIA =
+  calculateTwistInertia(createDefaultPose());
@@ -0,0 +1,279 @@
+import { CharacterSimulation, Trick } from './CharacterSimulation';
+import { describeTrick } from './TrickNotation';
+import { createDefaultPose, HIP_POSITION, splitLimbPath } from './Pose';
+import { classifyShape } from './ShapeClassifier';
+
+/**
+ * Judged scoring modelled on competition trampolining. A routine is made
+ * up of skills, one per bounce, and scores three marks:
+ *
+ *   Execution      each judge starts every skill on 1 point and deducts
+ *                  up to 0.5 for poor form; the highest and lowest judge
+ *                  are dropped and the middle three added up
+ *   Difficulty     added up from every skill's rotation and twist
+ *   Time of flight seconds from each contact with the mat to the next
+ */
+
+// Each judge's bias, added to a skill's deduction before rounding
+const JUDGE_STRICTNESS = [-0.04, -0.02, 0, 0.02, 0.04];
+
+// Most a judge can take off a single skill
+const MAX_SKILL_DEDUCTION = 0.5;
+
+// Deduction for a flight held in a pose with no resemblance to the shape
+// it is named after
+const SHAPE_ACCURACY_DEDUCTION = 0.4;
+
+// Deduction per unit the feet are spread wider than the hips, and its cap
+const LEG_SEPARATION_DEDUCTION = 0.2;
+const MAX_LEG_SEPARATION_DEDUCTION = 0.2;
+
+// Deduction per radian per second still turning at touchdown, and its cap
+const RESIDUAL_ROTATION_DEDUCTION = 0.05;
+const MAX_RESIDUAL_ROTATION_DEDUCTION = 0.2;
+
+const DEFAULT_POSE = createDefaultPose();
+
+/**
+ * One bounce as the panel scored it
+ */
+export interface JudgedSkill {
+  trick: Trick | null; // Null for a bounce with no skill
+  difficulty: number;
+  timeOfFlight: number; // Seconds since the previous contact with the mat
+  deductions: number[]; // Each judge's execution deduction
+}
+
+/**
+ * Marks for a finished routine
+ */
+export interface RoutineJudgement {
+  skills: JudgedSkill[];
+  executionByJudge: number[]; // Each judge's execution mark
+  droppedJudges: number[]; // Indexes of the highest and lowest judge
+  execution: number;
+  difficulty: number;
+  timeOfFlight: number;
+  total: number;
+}
+
+/**
+ * Form observed over one flight
+ */
+interface FlightObservation {
+  heldTicks: number; // Ticks spent holding a named shape
+  shapeError: number; // Summed over those ticks, 0 for the canonical pose
+  legSeparation: number; // Widest the feet were apart beyond the hips
+}
+
+/**
+ * Difficulty of a skill: 0.1 per quarter somersault and per half twist,
+ * 0.1 more for each full somersault, another 0.1 per somersault in a
+ * triple or more, and 0.1 for a somersault piked or straight without
+ * twist. A bounce with no rotation is worth nothing.
+ */
+export function calculateSkillDifficulty(trick: Trick | null): number {
+  const skill = trick && describeTrick(trick);
+  if (!skill) return 0;
+
+  const somersaults = Math.floor(skill.quarterSomersaults / 4);
+  const halfTwists = skill.halfTwistsBySomersault.reduce((a, b) => a + b, 0);
+  let tenths = skill.quarterSomersaults + halfTwists + somersaults;
+  if (somersaults >= 3) {
+    tenths += somersaults;
+  }
+  if (
+    somersaults > 0 &&
+    halfTwists === 0 &&
+    (skill.shape === 'pike' || skill.shape === 'straight')
+  ) {
+    tenths += 1;
+  }
+  return tenths / 10;
+}
+
+/**
+ * How far apart the feet are beyond the width of the hips
+ */
+function measureLegSeparation(character: CharacterSimulation): number {
+  const pose = character.getCustomLimbPositions() || DEFAULT_POSE;
+  const leftLeg = splitLimbPath(pose.leftArmLegPath).leg;
+  const rightLeg = splitLimbPath(pose.rightArmLegPath).leg;
+  if (leftLeg.length === 0 || rightLeg.length === 0) return 0;
+
+  const leftFoot = leftLeg[leftLeg.length - 1];
+  const rightFoot = rightLeg[rightLeg.length - 1];
+
+  return Math.max(0, Math.abs(leftFoot.x - rightFoot.x) - HIP_POSITION.x * 2);
+}
+
+function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function createFlight(): FlightObservation {
+  return { heldTicks: 0, shapeError: 0, legSeparation: 0 };
+}
+
+/**
+ * Five judges scoring a routine bounce by bounce. The simulation shows
+ * the panel every airborne tick and every touchdown; a routine starts
+ * with the first bounce that performs a skill and runs until it is
+ * finished.
+ */
+export class JudgePanel {
+  private skills: JudgedSkill[] = [];
+  private flight: FlightObservation = createFlight();
+  private lastContactTime: number | null = null;
+  // Error of the last shape measured, until the shape changes again
+  private heldShape: { version: number; error: number } | null = null;
+
+  /**
+   * Watch the character's form for one airborne tick
+   */
+  public observe(character: CharacterSimulation): void {
+    // Shapes are judged once reached; custom shapes have nothing to match
+    if (
+      character.getShapeTransitionProgress() === null &&
+      character.getCurrentShape() !== 'custom'
+    ) {
+      this.flight.heldTicks++;
+      this.flight.shapeError += this.measureShapeError(character);
+    }
+    // A straddle is meant to have the legs apart
+    if (character.getCurrentShape() !== 'straddle') {
+      this.flight.legSeparation = Math.max(
+        this.flight.legSeparation,
+        measureLegSeparation(character)
+      );
+    }
+  }
+
+  /**
+   * How far the held pose is from the canonical one for its shape, from 0
+   * for an exact match to 1 for no resemblance
+   */
+  private measureShapeError(character: CharacterSimulation): number {
+    const version = character.getShapeVersion();
+    if (this.heldShape?.version !== version) {
+      const pose = character.getCustomLimbPositions() || DEFAULT_POSE;
+      const classification = classifyShape(pose);
+      const error =
+        classification.closestShape === character.getCurrentShape()
+          ? 1 - classification.confidence
+          : 1;
+      this.heldShape = { version, error };
+    }
+    return this.heldShape.error;
+  }
+
+  /**
+   * Score the flight that has just come down on the mat
+   * @param trick The skill performed, with its landing position applied
+   * @param time Simulation time of the contact
+   * @returns The judged skill, or null before the routine has started
+   */
+  public judgeSkill(
+    trick: Trick | null,
+    character: CharacterSimulation,
+    time: number
+  ): JudgedSkill | null {
+    const flight = this.flight;
+    const timeOfFlight =
+      this.lastContactTime === null ? 0 : time - this.lastContactTime;
+    this.flight = createFlight();
+    this.lastContactTime = time;
+
+    // Bounces before the first skill are the run-up
+    if (!trick && this.skills.length === 0) return null;
+
+    const shapeDeduction =
+      flight.heldTicks > 0
+        ? (SHAPE_ACCURACY_DEDUCTION * flight.shapeError) / flight.heldTicks
+        : 0;
+    const legDeduction = Math.min(
+      MAX_LEG_SEPARATION_DEDUCTION,
+      flight.legSeparation * LEG_SEPARATION_DEDUCTION
+    );
+    const rotationDeduction = Math.min(
+      MAX_RESIDUAL_ROTATION_DEDUCTION,
+      character.getResidualAngularVelocity() * RESIDUAL_ROTATION_DEDUCTION
+    );
+    const deduction = shapeDeduction + legDeduction + rotationDeduction;
+
+    const skill: JudgedSkill = {
+      trick,
+      difficulty: calculateSkillDifficulty(trick),
+      timeOfFlight,
+      deductions: JUDGE_STRICTNESS.map((strictness) =>
+        Math.min(
+          MAX_SKILL_DEDUCTION,
+          Math.max(0, roundToTenth(deduction + strictness))
+        )
+      ),
+    };
+    this.skills.push(skill);
+    return skill;
+  }
+
+  /**
+   * Number of skills judged in the routine so far
+   */
+  public getSkillCount(): number {
+    return this.skills.length;
+  }
+
+  /**
+   * End the routine and work out its marks. The next contact starts
+   * timing afresh.
+   * @returns null if no skill was performed
+   */
+  public finishRoutine(): RoutineJudgement | null {
+    const skills = this.skills;
+    this.skills = [];
+    this.flight = createFlight();
+    this.lastContactTime = null;
+    return scoreRoutine(skills);
+  }
+}
+
+/**
+ * Add up the panel's marks for a set of judged skills
+ * @returns null if there are no skills to score
+ */
+export function scoreRoutine(skills: JudgedSkill[]): RoutineJudgement | null {
+  if (skills.length === 0) return null;
+
+  const executionByJudge = JUDGE_STRICTNESS.map((_, judge) =>
+    roundToTenth(
+      skills.reduce((sum, skill) => sum + 1 - skill.deductions[judge], 0)
+    )
+  );
+
+  // Leave out the highest and lowest mark
+  const order = executionByJudge
+    .map((mark, judge) => ({ mark, judge }))
+    .sort((a, b) => a.mark - b.mark || a.judge - b.judge);
+  const droppedJudges = [order[0].judge, order[order.length - 1].judge];
+  const execution = roundToTenth(
+    order.slice(1, -1).reduce((sum, { mark }) => sum + mark, 0)
+  );
+
+  const difficulty = roundToTenth(
+    skills.reduce((sum, skill) => sum + skill.difficulty, 0)
+  );
+  const timeOfFlight =
+    Math.round(
+      skills.reduce((sum, skill) => sum + skill.timeOfFlight, 0) * 1000
+    ) / 1000;
+
+  return {
+    skills,
+    executionByJudge,
+    droppedJudges,
+    execution,
+    difficulty,
+    timeOfFlight,
+    total: Math.round((execution + difficulty + timeOfFlight) * 1000) / 1000,
+  };
+}
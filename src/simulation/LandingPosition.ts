@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { Trick } from './CharacterSimulation';
+import { FRONT_SOMERSAULT_SIGN, LimbPositions } from './Pose';
+import {
+  findLowestContact,
+  getBodyContactPoints,
+  getPartHeight,
+} from './BodyContact';
+import { findDrop, getTrickDefinition } from './TrickCatalog';
+
+/**
+ * The part of the body that meets the mat
+ */
+export type LandingPosition = 'feet' | 'seat' | 'back' | 'front' | 'knees';
+
+export interface LandingPositionInfo {
+  drive: number; // Share of the leg drive and pump the position can push with
+  upright: boolean; // Landed with the body upright rather than lying flat
+}
+
+export const LANDING_POSITIONS: Record<LandingPosition, LandingPositionInfo> = {
+  feet: { drive: 1, upright: true },
+  seat: { drive: 0.6, upright: true },
+  knees: { drive: 0.5, upright: true },
+  back: { drive: 0.7, upright: false },
+  front: { drive: 0.6, upright: false },
+};
+
+// Tilt beyond which the body lands lying on the mat instead of upright
+const FLAT_TILT = Math.PI / 3;
+
+// How close to the lowest point the hips must be to sit on the mat
+const SEAT_TOLERANCE = 0.15;
+
+// How far the knees must be below the feet to kneel on the mat
+const KNEE_TOLERANCE = 0.1;
+
+/**
+ * Somersault angle wrapped to -PI..PI, 0 being upright
+ */
+export function getBodyTilt(rotation: THREE.Euler): number {
+  return Math.atan2(Math.sin(rotation.z), Math.cos(rotation.z));
+}
+
+/**
+ * Work out which part of the body meets the mat from the character's
+ * orientation and pose at touchdown. The lowest part of the body decides,
+ * except that sitting wins when the hips are nearly as low.
+ */
+export function classifyLandingPosition(
+  rotation: THREE.Euler,
+  limbPositions: LimbPositions
+): LandingPosition {
+  const tilt = getBodyTilt(rotation);
+
+  // Lying flat: the front faces down when tipped forward, unless a half
+  // twist has turned the body over
+  const frontDown =
+    Math.sin(tilt) * FRONT_SOMERSAULT_SIGN * Math.cos(rotation.y);
+  const flatSide = frontDown > 0 ? 'front' : 'back';
+  if (Math.abs(tilt) >= FLAT_TILT) {
+    return flatSide;
+  }
+
+  const points = getBodyContactPoints(rotation, limbPositions);
+  const lowest = findLowestContact(points);
+
+  if (getPartHeight(points, 'seat') <= lowest.y + SEAT_TOLERANCE) {
+    return 'seat';
+  }
+
+  switch (lowest.part) {
+    case 'foot':
+    case 'knee':
+      // Shins and knees only take the landing with the feet tucked up
+      return getPartHeight(points, 'knee') <
+        getPartHeight(points, 'foot') - KNEE_TOLERANCE
+        ? 'knees'
+        : 'feet';
+
+    default:
+      // Reaching down with the hands or head sprawls onto the body
+      return flatSide;
+  }
+}
+
+/**
+ * Attach the landing position to the jump's trick. A drop with no trick
+ * in the air still counts as a skill of its own.
+ */
+export function applyLandingPosition(
+  trick: Trick | null,
+  position: LandingPosition,
+  shape: string
+): Trick | null {
+  const drop = findDrop(position);
+  if (!drop) {
+    return trick;
+  }
+
+  if (trick) {
+    return { ...trick, landing: position };
+  }
+
+  return {
+    type: drop.name,
+    rotation: 0,
+    shape,
+    difficultyMultiplier: drop.difficulty,
+    landing: position,
+  };
+}
+
+/**
+ * Display name of a trick, including which way it turned unless the name
+ * already says so, and where it landed
+ */
+export function getTrickName(trick: Trick): string {
+  const name =
+    trick.direction && !getTrickDefinition(trick.type).direction
+      ? `${trick.direction} ${trick.type}`
+      : trick.type;
+
+  const drop = trick.landing && findDrop(trick.landing);
+  if (!drop || drop.name === trick.type) {
+    return name;
+  }
+  return `${name} to ${drop.name}`;
+}
@@ -0,0 +1,177 @@
+import { LimbPositions, Point, resamplePath, splitLimbPath } from './Pose';
+
+/**
+ * Where each limb is drawn, as chains of points in body coordinates running
+ * from the shoulder or hip out to the hand or foot
+ */
+export interface LimbPose {
+  leftArm: Point[];
+  rightArm: Point[];
+  leftLeg: Point[];
+  rightLeg: Point[];
+}
+
+// Points in each chain, matching the segments ShapeSystem draws per limb
+export const LIMB_CHAIN_POINTS = 11;
+
+// Spring pulling each point toward the target pose, per unit mass. The
+// chain is stiff at the joint and floppy at the hand or foot.
+const ROOT_STIFFNESS = 160;
+const TIP_STIFFNESS = 60;
+const LIMB_DAMPING = 7; // Low enough that a limb overshoots before settling
+
+// Share of the spin and impact loads the muscles do not hold
+const LOAD_RESPONSE = 0.15;
+
+// Heaviest load that reaches the limbs, so a hard landing or a fast spin
+// cannot stretch them out of shape
+const MAX_LOAD = 30;
+
+// Somersaults turn about the middle of the body
+const BODY_CENTER: Point = { x: 0, y: 1.0 };
+
+/**
+ * Forces on the body as a whole that the limbs react to
+ */
+export interface LimbLoad {
+  force: Point; // Apparent acceleration in body coordinates, e.g. landing
+  somersaultSpeed: number; // Radians per second about the body's center
+  twistSpeed: number; // Radians per second about the long axis
+}
+
+interface LimbChain {
+  points: Point[];
+  velocities: Point[];
+  targets: Point[];
+}
+
+/**
+ * Secondary motion of the limbs. Each limb is a chain of points on springs
+ * that chase the pose the player chose, so limbs lag behind a new shape,
+ * overshoot it and settle, and are flung about by spin and landings.
+ *
+ * Only the drawing follows these chains. Collision and inertia use the
+ * target pose, so the wobble never changes how a jump plays out.
+ */
+export class LimbDynamics {
+  private chains: LimbChain[];
+  private previousPose: LimbPose;
+
+  constructor(limbPositions: LimbPositions) {
+    this.chains = this.createTargets(limbPositions).map((targets) => ({
+      points: targets.map((p) => ({ ...p })),
+      velocities: targets.map(() => ({ x: 0, y: 0 })),
+      targets,
+    }));
+    this.previousPose = this.getPose();
+  }
+
+  /**
+   * Chase a new pose from wherever the limbs are now
+   */
+  public setTarget(limbPositions: LimbPositions): void {
+    this.createTargets(limbPositions).forEach((targets, i) => {
+      const chain = this.chains[i];
+      chain.targets = targets;
+
+      // A limb that was missing from the last pose starts where it belongs
+      if (chain.points.length !== targets.length) {
+        chain.points = targets.map((p) => ({ ...p }));
+        chain.velocities = targets.map(() => ({ x: 0, y: 0 }));
+      }
+    });
+  }
+
+  /**
+   * Advance every chain by one fixed timestep
+   */
+  public step(deltaTime: number, load: LimbLoad): void {
+    // Remember the last simulation state for render interpolation
+    this.previousPose = this.getPose();
+
+    const somersaultLoad = load.somersaultSpeed * load.somersaultSpeed;
+    const twistLoad = load.twistSpeed * load.twistSpeed;
+
+    for (const chain of this.chains) {
+      const { points, velocities, targets } = chain;
+      if (points.length === 0) continue;
+
+      // The shoulder or hip stays fixed to the body
+      points[0] = { ...targets[0] };
+      velocities[0] = { x: 0, y: 0 };
+
+      for (let i = 1; i < points.length; i++) {
+        const t = i / (points.length - 1);
+        const stiffness = ROOT_STIFFNESS + (TIP_STIFFNESS - ROOT_STIFFNESS) * t;
+        const p = points[i];
+        const v = velocities[i];
+
+        // Spinning flings points outward, away from the somersault center
+        // and from the long axis
+        const loadX =
+          load.force.x +
+          somersaultLoad * (p.x - BODY_CENTER.x) +
+          twistLoad * p.x;
+        const loadY = load.force.y + somersaultLoad * (p.y - BODY_CENTER.y);
+
+        // Only part of the load gets past the muscles
+        const loadScale = Math.min(
+          LOAD_RESPONSE,
+          MAX_LOAD / Math.max(1e-9, Math.sqrt(loadX * loadX + loadY * loadY))
+        );
+
+        const ax =
+          stiffness * (targets[i].x - p.x) -
+          LIMB_DAMPING * v.x +
+          loadScale * loadX;
+        const ay =
+          stiffness * (targets[i].y - p.y) -
+          LIMB_DAMPING * v.y +
+          loadScale * loadY;
+
+        v.x += ax * deltaTime;
+        v.y += ay * deltaTime;
+        p.x += v.x * deltaTime;
+        p.y += v.y * deltaTime;
+      }
+    }
+  }
+
+  /**
+   * Independent copy of the chains in their current state
+   */
+  public clone(): LimbDynamics {
+    const copy: LimbDynamics = Object.create(LimbDynamics.prototype);
+    copy.chains = this.chains.map((chain) => ({
+      points: chain.points.map((p) => ({ ...p })),
+      velocities: chain.velocities.map((v) => ({ ...v })),
+      targets: chain.targets,
+    }));
+    copy.previousPose = this.previousPose;
+    return copy;
+  }
+
+  public getPose(): LimbPose {
+    const [leftArm, rightArm, leftLeg, rightLeg] = this.chains.map((chain) =>
+      chain.points.map((p) => ({ ...p }))
+    );
+    return { leftArm, rightArm, leftLeg, rightLeg };
+  }
+
+  public getPreviousPose(): LimbPose {
+    return this.previousPose;
+  }
+
+  /**
+   * Target points for each chain, in the order left arm, right arm, left
+   * leg, right leg
+   */
+  private createTargets(limbPositions: LimbPositions): Point[][] {
+    const left = splitLimbPath(limbPositions.leftArmLegPath);
+    const right = splitLimbPath(limbPositions.rightArmLegPath);
+
+    return [left.arm, right.arm, left.leg, right.leg].map((path) =>
+      resamplePath(path, LIMB_CHAIN_POINTS)
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Point interface for 2D positions
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * LimbPositions interface for storing limb control points
+ */
+export interface LimbPositions {
+  leftArmLegPath: Point[]; // Left side of the body (both arm and leg)
+  rightArmLegPath: Point[]; // Right side of the body (both arm and leg)
+}
+
+// Left shoulder and hip anchors, matching the Character body layout
+export const SHOULDER_POSITION: Point = { x: 0.4, y: 1.4 };
+export const HIP_POSITION: Point = { x: 0.2, y: 0.5 };
+
+// Head and tapered torso, matching the Character meshes
+export const HEAD_CENTER: Point = { x: 0, y: 1.7 };
+export const HEAD_RADIUS = 0.3;
+export const TORSO_BOTTOM: Point = { x: 0, y: 0.5 };
+export const TORSO_BOTTOM_RADIUS = 0.4;
+export const TORSO_TOP: Point = { x: 0, y: 1.5 };
+export const TORSO_TOP_RADIUS = 0.3;
+
+// Positive somersault rotation (joystick right) is a front somersault
+export const FRONT_SOMERSAULT_SIGN = 1;
+
+/**
+ * Default straight pose with arms above head
+ */
+export function createDefaultPose(): LimbPositions {
+  const leftPath = [
+    { ...SHOULDER_POSITION }, // Left shoulder
+    { x: 0.3, y: 1.6 }, // Arm midpoint
+    { x: 0.1, y: 2.0 }, // Hand above head
+    { ...HIP_POSITION }, // Left hip
+    { x: 0.2, y: 0.0 }, // Knee
+    { x: 0.2, y: -0.6 }, // Foot pointing straight down
+  ];
+
+  // Mirror for right side
+  const rightPath = leftPath.map((p) => ({ x: -p.x, y: p.y }));
+
+  return {
+    leftArmLegPath: leftPath,
+    rightArmLegPath: rightPath,
+  };
+}
+
+/**
+ * Split one side's combined path into its arm and leg.
+ * The arm runs shoulder to hand and the leg runs hip to foot.
+ */
+export function splitLimbPath(path: Point[]): { arm: Point[]; leg: Point[] } {
+  // The hip anchor starts the leg; it is the only point at hip height and width
+  const hipIndex = path.findIndex(
+    (p, i) =>
+      i > 0 &&
+      Math.abs(Math.abs(p.x) - HIP_POSITION.x) < 1e-6 &&
+      Math.abs(p.y - HIP_POSITION.y) < 1e-6
+  );
+  const splitIndex = hipIndex > 0 ? hipIndex : Math.floor(path.length / 2);
+
+  return {
+    arm: path.slice(0, splitIndex),
+    leg: path.slice(splitIndex),
+  };
+}
+
+/**
+ * Resample a path to a fixed number of points spaced evenly along its length
+ */
+export function resamplePath(path: Point[], count: number): Point[] {
+  if (path.length === 0) return [];
+  if (path.length === 1 || count < 2) {
+    return Array.from({ length: Math.max(count, 1) }, () => ({ ...path[0] }));
+  }
+
+  // Cumulative distance at each input point
+  const distances = [0];
+  for (let i = 1; i < path.length; i++) {
+    const dx = path[i].x - path[i - 1].x;
+    const dy = path[i].y - path[i - 1].y;
+    distances.push(distances[i - 1] + Math.sqrt(dx * dx + dy * dy));
+  }
+  const totalLength = distances[distances.length - 1];
+
+  const result: Point[] = [];
+  let segment = 0;
+  for (let i = 0; i < count; i++) {
+    const target = (totalLength * i) / (count - 1);
+
+    // Advance to the segment containing the target distance
+    while (segment < path.length - 2 && distances[segment + 1] < target) {
+      segment++;
+    }
+
+    const segmentLength = distances[segment + 1] - distances[segment];
+    const t =
+      segmentLength > 0 ? (target - distances[segment]) / segmentLength : 0;
+    result.push({
+      x: path[segment].x + (path[segment + 1].x - path[segment].x) * t,
+      y: path[segment].y + (path[segment + 1].y - path[segment].y) * t,
+    });
+  }
+
+  return result;
+}
+
+// Points each arm and leg is resampled to when blending between poses
+const BLEND_LIMB_POINTS = 8;
+
+/**
+ * Resample both sides of a pose to the same number of points, arm and leg
+ * separately so the shoulder and hip stay where they are
+ */
+export function resamplePose(pose: LimbPositions): LimbPositions {
+  const resampleSide = (path: Point[]): Point[] => {
+    const { arm, leg } = splitLimbPath(path);
+    return [
+      ...resamplePath(arm, BLEND_LIMB_POINTS),
+      ...resamplePath(leg, BLEND_LIMB_POINTS),
+    ];
+  };
+
+  return {
+    leftArmLegPath: resampleSide(pose.leftArmLegPath),
+    rightArmLegPath: resampleSide(pose.rightArmLegPath),
+  };
+}
+
+/**
+ * Pose part way between two resampled poses, point by point
+ * @param t 0 for the first pose, 1 for the second
+ */
+export function blendPoses(
+  from: LimbPositions,
+  to: LimbPositions,
+  t: number
+): LimbPositions {
+  const blendSide = (a: Point[], b: Point[]): Point[] => {
+    // Sides that do not line up, e.g. a missing arm, jump straight across
+    if (a.length !== b.length) return b.map((p) => ({ ...p }));
+    return b.map((p, i) => ({
+      x: a[i].x + (p.x - a[i].x) * t,
+      y: a[i].y + (p.y - a[i].y) * t,
+    }));
+  };
+
+  return {
+    leftArmLegPath: blendSide(from.leftArmLegPath, to.leftArmLegPath),
+    rightArmLegPath: blendSide(from.rightArmLegPath, to.rightArmLegPath),
+  };
+}
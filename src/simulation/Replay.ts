@@ -0,0 +1,107 @@
+import { SimulationInput } from './Simulation';
+import { CharacterStats } from './CharacterStats';
+
+/**
+ * Every input fed to a fresh Simulation, one entry per fixed tick.
+ * Stepping a new Simulation for the same character with these inputs
+ * reproduces the run exactly.
+ */
+export interface Replay {
+  step: number; // Fixed timestep the run was simulated at
+  stats: CharacterStats; // Character the run was recorded with
+  frames: SimulationInput[];
+}
+
+/**
+ * Captures the input of each simulation tick
+ */
+export class ReplayRecorder {
+  private step: number;
+  private stats: CharacterStats;
+  private frames: SimulationInput[] = [];
+
+  constructor(step: number, stats: CharacterStats) {
+    this.step = step;
+    this.stats = { ...stats };
+  }
+
+  /**
+   * Store a copy of one tick's input
+   */
+  public record(input: SimulationInput): void {
+    const frame: SimulationInput = {
+      rotation: { x: input.rotation.x, y: input.rotation.y },
+      shape: input.shape,
+    };
+
+    // Only ticks that changed the shape carry limb positions
+    if (input.customShape !== undefined) {
+      frame.customShape = input.customShape && {
+        leftArmLegPath: input.customShape.leftArmLegPath.map((p) => ({
+          ...p,
+        })),
+        rightArmLegPath: input.customShape.rightArmLegPath.map((p) => ({
+          ...p,
+        })),
+      };
+    }
+
+    if (input.pump) {
+      frame.pump = true;
+    }
+
+    this.frames.push(frame);
+  }
+
+  public getReplay(): Replay {
+    return {
+      step: this.step,
+      stats: { ...this.stats },
+      frames: [...this.frames],
+    };
+  }
+
+  public getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  public clear(): void {
+    this.frames = [];
+  }
+}
+
+/**
+ * Hands a recorded run back to the simulation one tick at a time
+ */
+export class ReplayPlayer {
+  private replay: Replay;
+  private index: number = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  /**
+   * Input for the next tick, or null when the recording has ended
+   */
+  public next(): SimulationInput | null {
+    if (this.isFinished()) return null;
+    return this.replay.frames[this.index++];
+  }
+
+  public isFinished(): boolean {
+    return this.index >= this.replay.frames.length;
+  }
+
+  /**
+   * Fraction of the recording played so far (0 to 1)
+   */
+  public getProgress(): number {
+    if (this.replay.frames.length === 0) return 1;
+    return this.index / this.replay.frames.length;
+  }
+
+  public getStep(): number {
+    return this.replay.step;
+  }
+}
@@ -0,0 +1,324 @@
+import { version as GAME_VERSION } from '../../package.json';
+import { PHYSICS_CONSTANTS, PhysicsConstants } from '../game/Physics';
+import { LimbPositions, Point } from './Pose';
+import { Replay } from './Replay';
+import { CharacterStats, DEFAULT_CHARACTER_STATS } from './CharacterStats';
+import { SimulationInput } from './Simulation';
+import { TrampolineSpec } from './TrampolineSpec';
+
+/**
+ * Replay file format, version 5
+ *
+ * A replay file is a JSON document:
+ *
+ *   {
+ *     "format": "bounce-trick-replay",
+ *     "formatVersion": 5,
+ *     "header": {
+ *       "gameVersion": "1.0.0",         // package.json version that recorded it
+ *       "step": 0.016666666666666666,   // fixed timestep in seconds
+ *       "tickCount": 3600,              // number of entries in body.inputs
+ *       "physics": { "gravity": 9.8, ... }, // PHYSICS_CONSTANTS at record time
+ *       "stats": { "shapeMastery": 1, ... }, // CharacterStats of the character
+ *       "trampoline": { "name": "Round backyard", "outline": {...}, ... },
+ *       "finalScore": 1250
+ *     },
+ *     "body": {
+ *       "inputs": [
+ *         { "rotation": [x, y], "shape": "straight" },
+ *         { "rotation": [x, y], "shape": "straight", "pump": true },
+ *         ...
+ *       ],
+ *       "customShapes": [
+ *         { "tick": 200, "limbPositions": { "leftArmLegPath": [...], "rightArmLegPath": [...] } },
+ *         { "tick": 700, "limbPositions": null }
+ *       ]
+ *     }
+ *   }
+ *
+ * body.inputs holds one entry per simulation tick. "pump" marks ticks with
+ * the pump/kill button held and is left out when false. body.customShapes
+ * lists every shape applied during the run with the tick it was applied on;
+ * null returns the character to the straight shape. header.stats lists
+ * every CharacterStats multiplier, each a positive number; none has a
+ * default. Numbers are written at full precision because playback must
+ * reproduce the run bit for bit.
+ *
+ * Files recorded under different physics constants, trampoline or timestep
+ * are rejected rather than played back out of sync.
+ */
+
+export const REPLAY_FORMAT = 'bounce-trick-replay';
+export const REPLAY_FORMAT_VERSION = 5;
+
+export interface ReplayFileHeader {
+  gameVersion: string;
+  step: number;
+  tickCount: number;
+  physics: PhysicsConstants;
+  stats: CharacterStats;
+  trampoline: TrampolineSpec;
+  finalScore: number;
+}
+
+interface ReplayFileInput {
+  rotation: [number, number];
+  shape: string;
+  pump?: boolean;
+}
+
+interface ReplayFileShape {
+  tick: number;
+  limbPositions: LimbPositions | null;
+}
+
+interface ReplayFile {
+  format: string;
+  formatVersion: number;
+  header: ReplayFileHeader;
+  body: {
+    inputs: ReplayFileInput[];
+    customShapes: ReplayFileShape[];
+  };
+}
+
+/**
+ * Thrown when a replay file cannot be played back in this build
+ */
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+/**
+ * Write a replay to the versioned JSON format
+ */
+export function serializeReplay(
+  replay: Replay,
+  metadata: { trampoline: TrampolineSpec; finalScore: number }
+): string {
+  const inputs: ReplayFileInput[] = [];
+  const customShapes: ReplayFileShape[] = [];
+
+  replay.frames.forEach((frame, tick) => {
+    const input: ReplayFileInput = {
+      rotation: [frame.rotation.x, frame.rotation.y],
+      shape: frame.shape,
+    };
+    if (frame.pump) {
+      input.pump = true;
+    }
+    inputs.push(input);
+
+    if (frame.customShape !== undefined) {
+      customShapes.push({ tick, limbPositions: frame.customShape });
+    }
+  });
+
+  const file: ReplayFile = {
+    format: REPLAY_FORMAT,
+    formatVersion: REPLAY_FORMAT_VERSION,
+    header: {
+      gameVersion: GAME_VERSION,
+      step: replay.step,
+      tickCount: replay.frames.length,
+      physics: { ...PHYSICS_CONSTANTS },
+      stats: { ...replay.stats },
+      trampoline: metadata.trampoline,
+      finalScore: metadata.finalScore,
+    },
+    body: { inputs, customShapes },
+  };
+
+  return JSON.stringify(file);
+}
+
+/**
+ * Read one tick's input, checking it has everything a step needs
+ * @throws ReplayFormatError if the entry is malformed
+ */
+function parseInput(input: ReplayFileInput, tick: number): SimulationInput {
+  const rotation: unknown = input?.rotation;
+  if (
+    !Array.isArray(rotation) ||
+    rotation.length !== 2 ||
+    typeof rotation[0] !== 'number' ||
+    typeof rotation[1] !== 'number' ||
+    typeof input.shape !== 'string' ||
+    (input.pump !== undefined && typeof input.pump !== 'boolean')
+  ) {
+    throw new ReplayFormatError(`Replay input at tick ${tick} is malformed`);
+  }
+
+  const frame: SimulationInput = {
+    rotation: { x: rotation[0], y: rotation[1] },
+    shape: input.shape,
+  };
+  if (input.pump) {
+    frame.pump = true;
+  }
+  return frame;
+}
+
+/**
+ * Read the character's stats, each a finite positive multiplier
+ * @throws ReplayFormatError if any stat is missing or out of range, e.g.
+ * airControl in a file written before that stat existed
+ */
+function parseStats(stats: CharacterStats): CharacterStats {
+  const parsed = { ...DEFAULT_CHARACTER_STATS };
+  for (const name of Object.keys(parsed) as (keyof CharacterStats)[]) {
+    const value: unknown = stats[name];
+    if (value === undefined) {
+      throw new ReplayFormatError(`Replay stats are missing ${name}`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      throw new ReplayFormatError(
+        `Replay stat ${name} must be a positive number, not ${value}`
+      );
+    }
+    parsed[name] = value;
+  }
+  return parsed;
+}
+
+/**
+ * Whether a value is a limb path made of finite points
+ */
+function isLimbPath(path: unknown): path is Point[] {
+  return (
+    Array.isArray(path) &&
+    path.every(
+      (point) =>
+        typeof point === 'object' &&
+        point !== null &&
+        Number.isFinite(point.x) &&
+        Number.isFinite(point.y)
+    )
+  );
+}
+
+/**
+ * Add a recorded shape change to the input of the tick it was applied on,
+ * checking the shape is one a step can use
+ * @throws ReplayFormatError if the entry is malformed or outside the
+ * recording
+ */
+function applyCustomShape(
+  frames: SimulationInput[],
+  shape: ReplayFileShape,
+  index: number
+): void {
+  const tick: unknown = shape?.tick;
+  const limbPositions: unknown = shape?.limbPositions;
+  if (
+    typeof tick !== 'number' ||
+    !Number.isInteger(tick) ||
+    tick < 0 ||
+    (limbPositions !== null &&
+      (typeof limbPositions !== 'object' ||
+        !isLimbPath(shape.limbPositions?.leftArmLegPath) ||
+        !isLimbPath(shape.limbPositions?.rightArmLegPath)))
+  ) {
+    throw new ReplayFormatError(`Replay custom shape ${index} is malformed`);
+  }
+
+  if (!frames[tick]) {
+    throw new ReplayFormatError(
+      `Custom shape applied at tick ${tick}, outside the recording`
+    );
+  }
+  frames[tick].customShape = shape.limbPositions;
+}
+
+/**
+ * Read a replay file and check it can be played back faithfully
+ * @param text Contents of the replay file
+ * @param expected Settings of the current game the replay must match
+ * @throws ReplayFormatError if the file is malformed or incompatible
+ */
+export function parseReplay(
+  text: string,
+  expected: { step: number; trampoline: TrampolineSpec }
+): { header: ReplayFileHeader; replay: Replay } {
+  let file: ReplayFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ReplayFormatError('Replay file is not valid JSON');
+  }
+
+  if (!file || file.format !== REPLAY_FORMAT) {
+    throw new ReplayFormatError('File is not a Bounce Trick replay');
+  }
+
+  if (file.formatVersion !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(
+      `Replay format version ${file.formatVersion} is not supported ` +
+        `(this game reads version ${REPLAY_FORMAT_VERSION})`
+    );
+  }
+
+  const { header, body } = file;
+  if (
+    !header ||
+    !header.stats ||
+    !header.trampoline ||
+    !body ||
+    !Array.isArray(body.inputs) ||
+    (body.customShapes !== undefined && !Array.isArray(body.customShapes))
+  ) {
+    throw new ReplayFormatError('Replay file is missing its header or body');
+  }
+
+  // Any change in the rules would make the run desync, so refuse to play it
+  const recorded: Record<string, number> = { ...header.physics };
+  const current: Record<string, number> = { ...PHYSICS_CONSTANTS };
+  const names = new Set([...Object.keys(recorded), ...Object.keys(current)]);
+  const mismatches = [...names]
+    .filter((name) => recorded[name] !== current[name])
+    .map((name) => `${name} ${recorded[name]} (expected ${current[name]})`);
+  if (mismatches.length > 0) {
+    throw new ReplayFormatError(
+      `Replay was recorded with different physics (game version ` +
+        `${header.gameVersion}): ${mismatches.join(', ')}`
+    );
+  }
+
+  // Only the bed's outline and springiness change how a bounce plays out
+  const bed = (spec: TrampolineSpec): string =>
+    JSON.stringify({ outline: spec.outline, stiffness: spec.stiffness });
+  if (bed(header.trampoline) !== bed(expected.trampoline)) {
+    throw new ReplayFormatError(
+      `Replay was recorded on the ${header.trampoline.name} trampoline ` +
+        `(expected ${expected.trampoline.name})`
+    );
+  }
+
+  if (header.step !== expected.step) {
+    throw new ReplayFormatError(
+      `Replay was recorded at a timestep of ${header.step}s ` +
+        `(expected ${expected.step}s)`
+    );
+  }
+
+  if (header.tickCount !== body.inputs.length) {
+    throw new ReplayFormatError(
+      `Replay header lists ${header.tickCount} ticks but the body has ` +
+        `${body.inputs.length}`
+    );
+  }
+
+  const frames: SimulationInput[] = body.inputs.map(parseInput);
+
+  (body.customShapes || []).forEach((shape, index) =>
+    applyCustomShape(frames, shape, index)
+  );
+
+  return {
+    header,
+    replay: { step: header.step, stats: parseStats(header.stats), frames },
+  };
+}
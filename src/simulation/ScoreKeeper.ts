@@ -0,0 +1,227 @@
+import { Trick } from './CharacterSimulation';
+import { findDrop, getTrickDefinition } from './TrickCatalog';
+import { ShapeHistory } from './ShapeSimilarity';
+import { getTrickName } from './LandingPosition';
+
+// Seconds after a skill to land a different one and keep the chain going
+const CHAIN_WINDOW = 5;
+
+// Multiplier by the number of skills in the chain, the last one applying
+// to any longer chain
+const CHAIN_MULTIPLIERS = [1, 1.5, 2, 2.5, 3];
+
+// Multiplier for novelty (new tricks)
+const NOVELTY_BONUS = 1.2;
+
+// Points lost for falling off the trampoline
+const BAIL_PENALTY = 100;
+
+/**
+ * Different skills landed one after another, each within CHAIN_WINDOW of
+ * the last
+ */
+export interface ComboChain {
+  skills: string[]; // Trick names, first to last
+  multiplier: number; // Applied to the last skill's points
+  lastSkillTime: number; // Simulation time of the last skill, in seconds
+}
+
+/**
+ * Why a chain ended: it ran out of time, or the character crashed, bailed
+ * or killed the bounce
+ */
+export type ChainEndReason = 'timeout' | 'crash' | 'bail' | 'kill';
+
+/**
+ * A chain that has just ended
+ */
+export interface ChainEnd {
+  chain: ComboChain;
+  reason: ChainEndReason;
+}
+
+/**
+ * Name for a chain made of its skills, e.g. "Tuck Flip → Pike Flip"
+ */
+export function formatChainName(chain: ComboChain): string {
+  return chain.skills
+    .map((skill) => skill.replace(/\b\w/g, (letter) => letter.toUpperCase()))
+    .join(' → ');
+}
+
+/**
+ * Scoring rules and running totals with no DOM or storage access.
+ * ScoreManager persists the high score and shows popups on top of this.
+ */
+export class ScoreKeeper {
+  private score: number = 0;
+  private highScore: number = 0;
+  private chain: ComboChain | null = null;
+  private performedTricks: Set<string> = new Set();
+  // Custom shapes drawn for any trick this run. A restart starts afresh
+  // so a replay scores the same as the run it recorded.
+  private customShapes: ShapeHistory = new ShapeHistory();
+
+  /**
+   * Points for a landed trick, adding it to the combo chain
+   * @param time Simulation time in seconds, so replays score the same
+   */
+  public calculatePoints(
+    trick: Trick,
+    landingQuality: number,
+    time: number
+  ): number {
+    // Get base points for the trick type
+    let basePoints = getTrickDefinition(trick.type).basePoints;
+
+    // Landing a trick in a drop also scores the drop
+    const drop = trick.landing && findDrop(trick.landing);
+    if (drop && drop.name !== trick.type) {
+      basePoints += drop.basePoints;
+    }
+
+    // Apply difficulty multiplier from the trick
+    let points = basePoints * trick.difficultyMultiplier;
+
+    // Apply landing quality multiplier (0.1 to 1.0)
+    points *= Math.max(0.1, landingQuality);
+
+    // Check if this is a new trick for novelty bonus
+    const trickId = `${trick.type}-${trick.shape}-${trick.landing || 'feet'}`;
+    points *= this.calculateNoveltyBonus(trickId, trick);
+
+    // Chain different skills together for a growing multiplier
+    points *= this.extendChain(getTrickName(trick), time);
+
+    // Round to nearest 10
+    return Math.round(points / 10) * 10;
+  }
+
+  /**
+   * Add a skill to the chain, or start a new one if the chain has run out
+   * of time. Repeating the last skill does not extend the chain: it
+   * scores no multiplier and the chain keeps draining.
+   * @returns Multiplier for the skill
+   */
+  private extendChain(skill: string, time: number): number {
+    const chain = this.chain;
+    if (chain && time - chain.lastSkillTime <= CHAIN_WINDOW) {
+      if (chain.skills[chain.skills.length - 1] === skill) return 1;
+
+      chain.skills.push(skill);
+      chain.lastSkillTime = time;
+      chain.multiplier =
+        CHAIN_MULTIPLIERS[
+          Math.min(chain.skills.length, CHAIN_MULTIPLIERS.length) - 1
+        ];
+      return chain.multiplier;
+    }
+
+    this.chain = {
+      skills: [skill],
+      multiplier: CHAIN_MULTIPLIERS[0],
+      lastSkillTime: time,
+    };
+    return this.chain.multiplier;
+  }
+
+  /**
+   * End the chain once its time has run out
+   * @returns The chain that ended, or null if it is still going
+   */
+  public expireChain(time: number): ChainEnd | null {
+    if (!this.chain || time - this.chain.lastSkillTime <= CHAIN_WINDOW) {
+      return null;
+    }
+    return this.endChain('timeout');
+  }
+
+  /**
+   * End the chain now, e.g. after a crash or a kill
+   * @returns The chain that ended, or null if there was none
+   */
+  public endChain(reason: ChainEndReason): ChainEnd | null {
+    const chain = this.chain;
+    this.chain = null;
+    return chain && { chain, reason };
+  }
+
+  /**
+   * The chain under way, or null if there is none
+   */
+  public getChain(): ComboChain | null {
+    return this.chain;
+  }
+
+  /**
+   * Share of the chain's time left to land the next skill, from 1 just
+   * after a skill down to 0 when the chain ends
+   */
+  public getChainTimeLeft(time: number): number {
+    if (!this.chain) return 0;
+    const left = 1 - (time - this.chain.lastSkillTime) / CHAIN_WINDOW;
+    return Math.min(1, Math.max(0, left));
+  }
+
+  /**
+   * Full bonus the first time a trick is done. Custom shapes all share the
+   * name 'custom', so the bonus for those scales with how different the
+   * drawing is from every shape drawn before, whatever trick it was for.
+   */
+  private calculateNoveltyBonus(trickId: string, trick: Trick): number {
+    if (trick.limbPositions) {
+      const novelty = this.customShapes.measureNovelty(trick.limbPositions);
+      this.customShapes.add(trick.limbPositions);
+      return 1 + (NOVELTY_BONUS - 1) * novelty;
+    }
+
+    if (this.performedTricks.has(trickId)) return 1.0;
+    this.performedTricks.add(trickId);
+    return NOVELTY_BONUS;
+  }
+
+  /**
+   * Add points to the running score
+   * @returns true if the high score was beaten
+   */
+  public addPoints(points: number): boolean {
+    this.score += points;
+
+    // Update high score if needed
+    if (this.score > this.highScore) {
+      this.highScore = this.score;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Take points off for a bail
+   * @returns Points actually deducted, never taking the score below zero
+   */
+  public applyBailPenalty(): number {
+    const penalty = Math.min(BAIL_PENALTY, this.score);
+    this.score -= penalty;
+    return penalty;
+  }
+
+  public getScore(): number {
+    return this.score;
+  }
+
+  public getHighScore(): number {
+    return this.highScore;
+  }
+
+  public setHighScore(highScore: number): void {
+    this.highScore = highScore;
+  }
+
+  public resetScore(): void {
+    this.score = 0;
+    this.chain = null;
+    this.performedTricks.clear();
+    this.customShapes = new ShapeHistory();
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  createDefaultPose,
+  HIP_POSITION,
+  LimbPositions,
+  Point,
+  SHOULDER_POSITION,
+} from './Pose';
+import { calculateShapeDistance } from './ShapeSimilarity';
+
+// Distance from a canonical shape at which a drawing no longer resembles
+// it at all, in the units of calculateShapeDistance
+const MATCH_DISTANCE = 0.6;
+
+// Least confidence for a drawing to take a canonical shape's name
+const MIN_CONFIDENCE = 0.5;
+
+/**
+ * Build a pose from the left arm and leg after their shoulder and hip,
+ * mirrored for the right side
+ */
+function mirroredPose(arm: Point[], leg: Point[]): LimbPositions {
+  const left = [{ ...SHOULDER_POSITION }, ...arm, { ...HIP_POSITION }, ...leg];
+  return {
+    leftArmLegPath: left,
+    rightArmLegPath: left.map((p) => ({ x: -p.x, y: p.y })),
+  };
+}
+
+/**
+ * The positions players aim for when they draw a shape
+ */
+const CANONICAL_SHAPES: Record<string, LimbPositions> = {
+  straight: createDefaultPose(),
+  // Knees pulled up to the chest, hands holding the shins
+  tuck: mirroredPose(
+    [
+      { x: 0.6, y: 1.1 },
+      { x: 0.55, y: 0.75 },
+    ],
+    [
+      { x: 0.5, y: 1.0 },
+      { x: 0.45, y: 0.45 },
+    ]
+  ),
+  // Legs straight, hands reaching down to the toes
+  pike: mirroredPose(
+    [
+      { x: 0.35, y: 0.8 },
+      { x: 0.25, y: -0.5 },
+    ],
+    [
+      { x: 0.2, y: 0.0 },
+      { x: 0.2, y: -0.6 },
+    ]
+  ),
+  // Legs spread wide and nearly level, hands reaching out to them
+  straddle: mirroredPose(
+    [
+      { x: 0.8, y: 1.0 },
+      { x: 1.1, y: 0.4 },
+    ],
+    [
+      { x: 0.7, y: 0.3 },
+      { x: 1.2, y: 0.1 },
+    ]
+  ),
+  // Arms and legs stretched out into an X
+  star: mirroredPose(
+    [
+      { x: 0.8, y: 1.8 },
+      { x: 1.2, y: 2.2 },
+    ],
+    [
+      { x: 0.5, y: 0.0 },
+      { x: 0.8, y: -0.5 },
+    ]
+  ),
+};
+
+/**
+ * What a drawn pose looks like
+ */
+export interface ShapeClassification {
+  shape: string; // Canonical shape matched, or 'custom' if none is close
+  closestShape: string; // Nearest canonical shape, even when too far off
+  confidence: number; // How closely the pose matches closestShape, 0 to 1
+}
+
+/**
+ * Name the canonical shape a drawn pose is closest to. Drawings that are
+ * not close to any of them stay 'custom'.
+ */
+export function classifyShape(pose: LimbPositions): ShapeClassification {
+  let closestShape = 'straight';
+  let closestDistance = Infinity;
+  for (const [name, canonical] of Object.entries(CANONICAL_SHAPES)) {
+    const distance = calculateShapeDistance(pose, canonical);
+    if (distance < closestDistance) {
+      closestShape = name;
+      closestDistance = distance;
+    }
+  }
+
+  const confidence = Math.max(0, 1 - closestDistance / MATCH_DISTANCE);
+  return {
+    shape: confidence >= MIN_CONFIDENCE ? closestShape : 'custom',
+    closestShape,
+    confidence,
+  };
+}
+
+/**
+ * Canonical pose for a named shape, e.g. to draw it or test against
+ * @returns null for a name with no canonical pose, such as 'custom'
+ */
+export function getCanonicalShape(name: string): LimbPositions | null {
+  return CANONICAL_SHAPES[name] ?? null;
+}
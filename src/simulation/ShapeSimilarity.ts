@@ -0,0 +1,70 @@
+import { LimbPositions, Point, resamplePose } from './Pose';
+
+// Mean distance between matching points at which a shape counts as
+// entirely new, in body units (the body is about 2.6 tall)
+const NOVEL_SHAPE_DISTANCE = 0.5;
+
+// Closer than this a shape is a copy of one already seen and earns nothing
+const DUPLICATE_SHAPE_DISTANCE = 0.05;
+
+/**
+ * How far apart two poses are: the mean distance between matching points
+ * once both are resampled, so shapes drawn with different numbers of
+ * points compare fairly. A side that has a limb in one pose but not the
+ * other counts as entirely new.
+ */
+export function calculateShapeDistance(
+  a: LimbPositions,
+  b: LimbPositions
+): number {
+  const first = resamplePose(a);
+  const second = resamplePose(b);
+
+  const sideDistance = (p: Point[], q: Point[]): number => {
+    if (p.length !== q.length) return NOVEL_SHAPE_DISTANCE;
+    if (p.length === 0) return 0;
+    const total = p.reduce(
+      (sum, point, i) => sum + Math.hypot(point.x - q[i].x, point.y - q[i].y),
+      0
+    );
+    return total / p.length;
+  };
+
+  return (
+    (sideDistance(first.leftArmLegPath, second.leftArmLegPath) +
+      sideDistance(first.rightArmLegPath, second.rightArmLegPath)) /
+    2
+  );
+}
+
+/**
+ * Custom shapes already performed this session, to tell how new another
+ * one is
+ */
+export class ShapeHistory {
+  private shapes: LimbPositions[] = [];
+
+  /**
+   * How new a shape is next to the closest one seen so far: 1 for a shape
+   * unlike any before (or the first), falling to 0 for a near copy
+   */
+  public measureNovelty(shape: LimbPositions): number {
+    if (this.shapes.length === 0) return 1;
+
+    const nearest = Math.min(
+      ...this.shapes.map((seen) => calculateShapeDistance(shape, seen))
+    );
+    const novelty =
+      (nearest - DUPLICATE_SHAPE_DISTANCE) /
+      (NOVEL_SHAPE_DISTANCE - DUPLICATE_SHAPE_DISTANCE);
+    return Math.min(1, Math.max(0, novelty));
+  }
+
+  public add(shape: LimbPositions): void {
+    this.shapes.push(shape);
+  }
+
+  public getCount(): number {
+    return this.shapes.length;
+  }
+}
@@ -0,0 +1,479 @@
+import { Physics, PHYSICS_CONSTANTS } from '../game/Physics';
+import {
+  CharacterSimulation,
+  RotationInput,
+  Trick,
+} from './CharacterSimulation';
+import { TrampolineSimulation } from './TrampolineSimulation';
+import { ROUND_BACKYARD_TRAMPOLINE, TrampolineSpec } from './TrampolineSpec';
+import { ChainEnd, ScoreKeeper } from './ScoreKeeper';
+import { JudgedSkill, JudgePanel, RoutineJudgement } from './JudgePanel';
+import { LimbPositions } from './Pose';
+import { CharacterStats, DEFAULT_CHARACTER_STATS } from './CharacterStats';
+import {
+  applyLandingPosition,
+  LANDING_POSITIONS,
+  LandingPosition,
+} from './LandingPosition';
+
+/**
+ * Everything the player can influence during a single tick
+ */
+export interface SimulationInput {
+  rotation: RotationInput;
+  shape: string;
+  customShape?: LimbPositions | null; // Shape applied this tick, null returns to straight
+  pump?: boolean; // Pump/kill button held this tick
+}
+
+/**
+ * Result of a tick in which the character bounced off the mat
+ */
+export interface LandingEvent {
+  landingPosition: LandingPosition;
+  landingQuality: number;
+  bounceForce: number;
+  trick: Trick | null;
+  points: number;
+  isNewHighScore: boolean;
+  judgedSkill: JudgedSkill | null; // Null for bounces before a routine starts
+  isKill: boolean; // The button was held through touchdown to stop dead
+}
+
+/**
+ * How well a pump was timed against the bottom of the bounce, or a kill
+ * against touchdown
+ */
+export interface BounceTiming {
+  kind: 'pump' | 'kill';
+  offset: number; // Seconds from the bottom or touchdown to the press, negative if early
+  accuracy: number; // 1 for perfect timing, 0 outside the window
+}
+
+/**
+ * The character came down head first on the mat (crash) or missed it and
+ * hit the ground (bail)
+ */
+export interface CrashEvent {
+  kind: 'crash' | 'bail';
+  penalty: number; // Points taken off the score
+}
+
+/**
+ * What the character is doing. Play moves between airborne and
+ * matContact. After a crash or bail the character lies where they fell
+ * (crashed), gets back up on the mat (recovering) and stands still for a
+ * moment (standing) before a re-entry bounce puts them back in the air.
+ */
+export type CharacterState =
+  | 'airborne'
+  | 'matContact'
+  | 'crashed'
+  | 'recovering'
+  | 'standing';
+
+/**
+ * How the character came down onto the mat, kept until they leave it
+ */
+interface MatContact {
+  landingPosition: LandingPosition;
+  landingQuality: number;
+  trick: Trick | null;
+  judgedSkill: JudgedSkill | null;
+  points: number; // Scored for the trick at touchdown
+  isNewHighScore: boolean;
+  isKill: boolean; // Button was held at touchdown
+  isKilling: boolean; // Button held since touchdown
+  pumpTime: number | null; // Press not yet matched to a bottom
+  bottomTime: number | null; // Last time the mat reached maximum depth
+}
+
+/**
+ * Headless game world: character, trampoline, collision, trick detection
+ * and scoring. Runs in Node without a DOM or WebGL context.
+ */
+export class Simulation {
+  public readonly physics: Physics;
+  public readonly character: CharacterSimulation;
+  public readonly trampoline: TrampolineSimulation;
+  public readonly scoreKeeper: ScoreKeeper;
+  public readonly judgePanel: JudgePanel;
+  private time: number = 0;
+  private tickCount: number = 0;
+  private contact: MatContact | null = null;
+  private isPumpHeld: boolean = false;
+  private pumpPressTime: number | null = null; // Start of the current press
+  private bounceTiming: BounceTiming | null = null;
+  private state: CharacterState = 'airborne';
+  private stateTime: number = 0; // Seconds spent in the current state
+  private crashEvent: CrashEvent | null = null;
+  private routineJudgement: RoutineJudgement | null = null;
+  private chainEnd: ChainEnd | null = null;
+
+  constructor(
+    stats: CharacterStats = DEFAULT_CHARACTER_STATS,
+    trampolineSpec: TrampolineSpec = ROUND_BACKYARD_TRAMPOLINE
+  ) {
+    this.physics = new Physics();
+    this.character = new CharacterSimulation(stats);
+    this.trampoline = new TrampolineSimulation(trampolineSpec);
+    this.scoreKeeper = new ScoreKeeper();
+    this.judgePanel = new JudgePanel();
+  }
+
+  /**
+   * Advance the world by one fixed timestep
+   * @returns Landing details on the tick the character leaves the mat
+   */
+  public step(deltaTime: number, input: SimulationInput): LandingEvent | null {
+    this.time += deltaTime;
+    this.tickCount++;
+    this.bounceTiming = null;
+    this.crashEvent = null;
+    this.routineJudgement = null;
+    this.chainEnd = this.scoreKeeper.expireChain(this.time);
+
+    // A pump is a fresh press, holding the button through touchdown kills
+    const isPumpPressed = !!input.pump && !this.isPumpHeld;
+    this.isPumpHeld = !!input.pump;
+    if (isPumpPressed) {
+      this.pumpPressTime = this.time;
+    }
+
+    // Apply shape changes at a known tick so replays match
+    if (input.customShape !== undefined) {
+      if (input.customShape) {
+        this.character.setCustomShape(input.customShape);
+      } else {
+        this.character.resetToDefaultShape();
+      }
+    }
+
+    this.stateTime += deltaTime;
+    this.updateRecovery();
+
+    // Update physics
+    this.physics.update(deltaTime);
+
+    // Update character based on physics and input
+    this.character.step(deltaTime, input.rotation, input.shape);
+
+    // Update trampoline
+    this.trampoline.step(deltaTime);
+
+    switch (this.state) {
+      case 'airborne':
+        this.judgePanel.observe(this.character);
+
+        // Missed the mat and hit the floor
+        if (this.character.isOnGround()) {
+          this.crash('bail');
+        } else if (
+          this.physics.checkCollision(this.character, this.trampoline)
+        ) {
+          this.touchDown();
+        }
+        return null;
+
+      case 'matContact': {
+        const contact = this.contact as MatContact;
+
+        // Standing after a kill, a fresh press jumps straight back up
+        // whether or not the mat has settled
+        if (contact.isKill && !contact.isKilling && isPumpPressed) {
+          this.trampoline.release();
+          return this.takeOff(PHYSICS_CONSTANTS.reentryBounce, contact);
+        }
+
+        this.updateBounceTiming(contact, isPumpPressed);
+
+        // The mat has thrown the character back into the air
+        const launchSpeed = this.trampoline.getLaunchSpeed();
+        if (launchSpeed !== null) {
+          return this.takeOff(launchSpeed, contact);
+        }
+
+        // Still sinking into or rising with the mat
+        this.rideMat();
+        return null;
+      }
+
+      default:
+        // Lying on or standing on the mat, which is too heavily damped to
+        // throw the character off
+        if (this.trampoline.hasJumper()) {
+          this.rideMat();
+        }
+        return null;
+    }
+  }
+
+  /**
+   * Move through the crash states once each has run its course
+   */
+  private updateRecovery(): void {
+    switch (this.state) {
+      case 'crashed':
+        if (this.stateTime >= PHYSICS_CONSTANTS.crashDuration) {
+          // Back on the mat if the character fell off it
+          if (!this.trampoline.hasJumper()) {
+            this.trampoline.land(0);
+            this.trampoline.setLegDamping(PHYSICS_CONSTANTS.crashDamping);
+          }
+          this.character.recover();
+          this.setState('recovering');
+        }
+        break;
+
+      case 'recovering':
+        if (this.character.isAtRest()) {
+          this.setState('standing');
+        }
+        break;
+
+      case 'standing':
+        // A controlled bounce back into the air
+        if (this.stateTime >= PHYSICS_CONSTANTS.standingDuration) {
+          this.trampoline.release();
+          this.character.bounce(PHYSICS_CONSTANTS.reentryBounce);
+          this.setState('airborne');
+        }
+        break;
+    }
+  }
+
+  /**
+   * Start the contact phase, or collapse onto the mat after a head first
+   * landing
+   */
+  private touchDown(): void {
+    if (this.physics.isCrashLanding(this.character)) {
+      this.trampoline.setDriveForce(0);
+      this.trampoline.setLegDamping(PHYSICS_CONSTANTS.crashDamping);
+      this.crash('crash');
+      this.rideMat();
+      return;
+    }
+
+    const landingPosition = this.physics.calculateLandingPosition(
+      this.character
+    );
+    const landingQuality = this.physics.calculateLandingQuality(this.character);
+
+    // Read the trick on touchdown, before any contact ticks can change it
+    this.contact = {
+      landingPosition,
+      landingQuality,
+      trick: applyLandingPosition(
+        this.character.getCurrentTrick(),
+        landingPosition,
+        this.character.getCurrentShape()
+      ),
+      judgedSkill: null,
+      points: 0,
+      isNewHighScore: false,
+      isKill: this.isPumpHeld,
+      isKilling: this.isPumpHeld,
+      pumpTime: null,
+      bottomTime: null,
+    };
+
+    // Score the trick as it lands, so a kill ends the combo chain with it
+    // and the routine after the judges have seen it
+    if (this.contact.trick) {
+      // Use simulation time so replays score the same as the original run
+      this.contact.points = this.scoreKeeper.calculatePoints(
+        this.contact.trick,
+        landingQuality,
+        this.time
+      );
+      this.contact.isNewHighScore = this.scoreKeeper.addPoints(
+        this.contact.points
+      );
+    }
+    this.contact.judgedSkill = this.judgePanel.judgeSkill(
+      this.contact.trick,
+      this.character,
+      this.time
+    );
+    if (this.isPumpHeld) {
+      // The press is timed against first contact, the way a pump is timed
+      // against the bottom
+      const offset = (this.pumpPressTime as number) - this.time;
+      const accuracy = this.physics.calculatePumpAccuracy(offset);
+      this.bounceTiming = { kind: 'kill', offset, accuracy };
+
+      this.routineJudgement = this.judgePanel.finishRoutine();
+      this.chainEnd = this.scoreKeeper.endChain('kill');
+
+      // The legs soak up the mat until it comes to rest. The character
+      // then stands on it, even after letting go, until a fresh pump
+      // jumps them back into the air.
+      this.trampoline.setDriveForce(0);
+      this.trampoline.setLegDamping(PHYSICS_CONSTANTS.killDamping);
+    } else {
+      this.trampoline.setDriveForce(this.calculateDrive(this.contact, 0));
+    }
+    this.setState('matContact');
+    this.rideMat();
+  }
+
+  /**
+   * Match pumps and kills against the bottom of the bounce and change how
+   * hard the legs push off the mat
+   */
+  private updateBounceTiming(
+    contact: MatContact,
+    isPumpPressed: boolean
+  ): void {
+    const window = PHYSICS_CONSTANTS.pumpWindow;
+
+    // Letting go ends the kill, the legs no longer soak up the mat
+    if (contact.isKilling && !this.isPumpHeld) {
+      contact.isKilling = false;
+      this.trampoline.setLegDamping(0);
+    }
+
+    if (isPumpPressed) {
+      contact.pumpTime = this.time;
+
+      // Just after the bottom counts as a late pump, otherwise wait for it
+      if (
+        contact.bottomTime !== null &&
+        this.time - contact.bottomTime <= window
+      ) {
+        this.judgePump(contact, contact.bottomTime);
+      }
+    }
+
+    if (this.trampoline.hasReachedBottom()) {
+      contact.bottomTime = this.time;
+
+      if (contact.pumpTime !== null) {
+        this.judgePump(contact, this.time);
+      }
+    }
+  }
+
+  private judgePump(contact: MatContact, bottomTime: number): void {
+    const offset = (contact.pumpTime as number) - bottomTime;
+    const accuracy = this.physics.calculatePumpAccuracy(offset);
+    contact.pumpTime = null;
+
+    this.trampoline.setDriveForce(this.calculateDrive(contact, accuracy));
+    this.bounceTiming = { kind: 'pump', offset, accuracy };
+  }
+
+  /**
+   * Push off the mat from the legs and any pump, limited by how much the
+   * landing position can push with
+   */
+  private calculateDrive(contact: MatContact, pumpAccuracy: number): number {
+    const drive =
+      this.physics.calculateLegDrive(contact.landingQuality) +
+      this.physics.calculatePumpDrive(pumpAccuracy);
+    return drive * LANDING_POSITIONS[contact.landingPosition].drive;
+  }
+
+  /**
+   * Go down after a crash or bail. Either ends the combo chain and the
+   * routine, and missing the mat costs points too.
+   */
+  private crash(kind: CrashEvent['kind']): void {
+    this.character.crash();
+    this.routineJudgement = this.judgePanel.finishRoutine();
+    this.chainEnd = this.scoreKeeper.endChain(kind);
+    this.setState('crashed');
+    const penalty = kind === 'bail' ? this.scoreKeeper.applyBailPenalty() : 0;
+    this.crashEvent = { kind, penalty };
+  }
+
+  private setState(state: CharacterState): void {
+    this.state = state;
+    this.stateTime = 0;
+  }
+
+  private rideMat(): void {
+    this.character.rideMat(
+      this.trampoline.getSurfaceHeight(),
+      this.trampoline.getSurfaceVelocity()
+    );
+  }
+
+  private takeOff(launchSpeed: number, contact: MatContact): LandingEvent {
+    const {
+      landingPosition,
+      landingQuality,
+      trick,
+      judgedSkill,
+      points,
+      isNewHighScore,
+      isKill,
+    } = contact;
+    const bounceForce = this.physics.calculateBounceForce(launchSpeed);
+    const drift = this.physics.calculateTakeoffDrift(
+      this.character,
+      this.trampoline,
+      bounceForce
+    );
+    this.contact = null;
+    this.setState('airborne');
+
+    // Bouncing clears the trick for the next jump
+    this.character.bounce(bounceForce);
+    this.character.setHorizontalVelocity(drift.x, drift.z);
+
+    return {
+      landingPosition,
+      landingQuality,
+      bounceForce,
+      trick,
+      points,
+      isNewHighScore,
+      judgedSkill,
+      isKill,
+    };
+  }
+
+  /**
+   * Pump or kill judged during the last step, or null if there was none
+   */
+  public getBounceTiming(): BounceTiming | null {
+    return this.bounceTiming;
+  }
+
+  /**
+   * Crash or bail that happened during the last step, or null if there was
+   * none
+   */
+  public getCrash(): CrashEvent | null {
+    return this.crashEvent;
+  }
+
+  /**
+   * Routine the judges finished scoring during the last step, or null if
+   * none ended
+   */
+  public getRoutineJudgement(): RoutineJudgement | null {
+    return this.routineJudgement;
+  }
+
+  /**
+   * Combo chain that ended during the last step, or null if none did
+   */
+  public getChainEnd(): ChainEnd | null {
+    return this.chainEnd;
+  }
+
+  public getState(): CharacterState {
+    return this.state;
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getTickCount(): number {
+    return this.tickCount;
+  }
+}
@@ -0,0 +1,146 @@
+import * as THREE from 'three';
+import { Simulation, SimulationInput } from './Simulation';
+import { BodyPart } from './BodyContact';
+
+// Longest flight worth predicting, in ticks
+const MAX_PREDICTION_TICKS = 600;
+
+/**
+ * Where and how the character will come down
+ */
+export interface PredictedTouchdown {
+  ticks: number; // Ticks from now until touchdown
+  position: THREE.Vector3; // Center of mass
+  rotation: THREE.Euler;
+  part: BodyPart; // Part of the body that meets the mat or floor first
+  onBed: boolean; // False if the character will miss the mat
+  isCrashLanding: boolean; // Coming down on the mat head or hands first
+}
+
+/**
+ * The rest of the current flight, assuming the player lets go of the
+ * joystick and holds their shape
+ */
+export interface TrajectoryPrediction {
+  path: THREE.Vector3[]; // Center of mass after each tick, starting now
+  touchdown: PredictedTouchdown | null; // Null if it is too far off
+}
+
+/**
+ * Look ahead through the rest of a flight. Copies of the character and mat
+ * are stepped with the same code as the real simulation, so as long as
+ * the player gives no more input the prediction matches tick for tick.
+ * @returns null unless the character is in the air
+ */
+export function predictTrajectory(
+  simulation: Simulation,
+  deltaTime: number
+): TrajectoryPrediction | null {
+  if (simulation.getState() !== 'airborne') return null;
+
+  const character = simulation.character.clone();
+  const trampoline = simulation.trampoline.clone();
+  const path = [character.getPosition()];
+
+  for (let tick = 1; tick <= MAX_PREDICTION_TICKS; tick++) {
+    character.step(deltaTime, { x: 0, y: 0 }, character.getCurrentShape());
+    trampoline.step(deltaTime);
+    path.push(character.getPosition());
+
+    // The same checks Simulation makes for an airborne character
+    const onGround = character.isOnGround();
+    if (onGround || simulation.physics.checkCollision(character, trampoline)) {
+      return {
+        path,
+        touchdown: {
+          ticks: tick,
+          position: character.getPosition(),
+          rotation: character.getRotation(),
+          part: character.getLowestContact().part,
+          onBed: !onGround,
+          isCrashLanding:
+            !onGround && simulation.physics.isCrashLanding(character),
+        },
+      };
+    }
+  }
+
+  return { path, touchdown: null };
+}
+
+/**
+ * Number of ticks a prediction looks ahead
+ */
+function countPredictedTicks(prediction: TrajectoryPrediction): number {
+  return prediction.touchdown?.ticks ?? prediction.path.length - 1;
+}
+
+/**
+ * The same prediction, some ticks further into the flight
+ */
+function advancePrediction(
+  prediction: TrajectoryPrediction,
+  ticks: number
+): TrajectoryPrediction {
+  const { path, touchdown } = prediction;
+  return {
+    path: path.slice(ticks),
+    touchdown: touchdown && { ...touchdown, ticks: touchdown.ticks - ticks },
+  };
+}
+
+/**
+ * Keeps a prediction from one frame to the next. A flight with no input
+ * follows the prediction exactly, so it only needs working out again
+ * once the player steers or changes shape; otherwise each tick that
+ * passes drops off the front of the path.
+ */
+export class TrajectoryPredictor {
+  private simulation: Simulation | null = null;
+  private prediction: TrajectoryPrediction | null = null;
+  private tickCount: number = 0; // Tick the prediction starts at
+  private hasInput: boolean = true; // Input since the prediction was made
+
+  /**
+   * Note the input a simulation step was given
+   */
+  public observeInput(input: SimulationInput): void {
+    if (
+      input.rotation.x !== 0 ||
+      input.rotation.y !== 0 ||
+      input.customShape !== undefined
+    ) {
+      this.hasInput = true;
+    }
+  }
+
+  /**
+   * Prediction for the simulation as it is now, reusing the last one
+   * while it still holds
+   * @returns null unless the character is in the air
+   */
+  public predict(
+    simulation: Simulation,
+    deltaTime: number
+  ): TrajectoryPrediction | null {
+    const ticks = simulation.getTickCount() - this.tickCount;
+    if (simulation === this.simulation && ticks === 0) {
+      return this.prediction;
+    }
+
+    const prediction = this.prediction;
+    const isFollowing =
+      simulation === this.simulation &&
+      !this.hasInput &&
+      simulation.getState() === 'airborne';
+
+    this.prediction =
+      isFollowing && prediction && ticks < countPredictedTicks(prediction)
+        ? advancePrediction(prediction, ticks)
+        : predictTrajectory(simulation, deltaTime);
+    this.simulation = simulation;
+    this.tickCount = simulation.getTickCount();
+    this.hasInput = false;
+    return this.prediction;
+  }
+}
@@ -0,0 +1,200 @@
+import * as THREE from 'three';
+import { PHYSICS_CONSTANTS } from '../game/Physics';
+import {
+  getHalfExtents,
+  isInsideOutline,
+  ROUND_BACKYARD_TRAMPOLINE,
+  TrampolineSpec,
+} from './TrampolineSpec';
+
+/**
+ * Physics state of the trampoline mat with no rendering attached.
+ * The Trampoline entity is a view that reads from this each frame.
+ *
+ * The mat is a damped spring with a small mass of its own. While a jumper
+ * stands on it the two move together, so the jumper sinks in, stores energy
+ * in the spring and is thrown back up when the mat returns to rest.
+ * Masses and forces are per unit of jumper mass.
+ */
+export class TrampolineSimulation {
+  private spec: TrampolineSpec;
+  private compressionAmount: number = 0; // Depth below rest, positive is down
+  private previousCompressionAmount: number = 0;
+  private matVelocity: number = 0; // Positive is down
+  private restPosition: number = 0;
+  private isLoaded: boolean = false;
+  private driveForce: number = 0;
+  private legDamping: number = 0;
+  private reachedBottom: boolean = false;
+  private launchSpeed: number | null = null;
+
+  constructor(spec: TrampolineSpec = ROUND_BACKYARD_TRAMPOLINE) {
+    this.spec = spec;
+  }
+
+  /**
+   * Advance the mat by one fixed timestep
+   */
+  public step(deltaTime: number): void {
+    // Remember the last simulation state for render interpolation
+    this.previousCompressionAmount = this.compressionAmount;
+    this.launchSpeed = null;
+    this.reachedBottom = false;
+
+    const load = this.isLoaded ? 1 : 0;
+    const mass = PHYSICS_CONSTANTS.matMass + load;
+
+    // Spring and damper pull the mat back to rest, the jumper's weight
+    // presses it down
+    let force =
+      load * PHYSICS_CONSTANTS.gravity -
+      this.spec.stiffness * this.compressionAmount -
+      PHYSICS_CONSTANTS.matDamping * this.matVelocity;
+
+    if (this.isLoaded) {
+      // Stiff legs soak up the mat's motion in either direction
+      force -= this.legDamping * this.matVelocity;
+
+      // The jumper's legs push off while the mat is on its way back up
+      if (this.matVelocity <= 0) {
+        force -= this.driveForce;
+      }
+    }
+
+    const wasSinking = this.matVelocity > 0;
+    this.matVelocity += (force / mass) * deltaTime;
+    this.reachedBottom = this.isLoaded && wasSinking && this.matVelocity <= 0;
+    this.compressionAmount += this.matVelocity * deltaTime;
+
+    // Past rest the mat decelerates faster than gravity, so the jumper
+    // leaves it with the mat's upward speed and the mat rings on alone
+    if (this.isLoaded && this.compressionAmount <= 0 && this.matVelocity < 0) {
+      this.isLoaded = false;
+      this.driveForce = 0;
+      this.legDamping = 0;
+      this.launchSpeed = -this.matVelocity;
+    }
+
+    // Let a free mat settle completely so it is still before the next landing
+    if (
+      !this.isLoaded &&
+      Math.abs(this.compressionAmount) < 0.001 &&
+      Math.abs(this.matVelocity) < 0.01
+    ) {
+      this.compressionAmount = 0;
+      this.matVelocity = 0;
+    }
+  }
+
+  /**
+   * Independent copy of the mat in its current state
+   */
+  public clone(): TrampolineSimulation {
+    return Object.assign(Object.create(TrampolineSimulation.prototype), this);
+  }
+
+  /**
+   * Put the jumper on the mat. Both move together from here, at the speed
+   * momentum sharing gives them, so landing while the mat is still
+   * springing back up soaks up some of the jumper's speed.
+   * @param fallSpeed Downward speed of the jumper on touchdown
+   */
+  public land(fallSpeed: number): void {
+    const matMass = PHYSICS_CONSTANTS.matMass;
+    this.matVelocity = (fallSpeed + matMass * this.matVelocity) / (1 + matMass);
+    this.isLoaded = true;
+    this.launchSpeed = null;
+  }
+
+  /**
+   * Upward force the jumper adds while the mat recoils
+   */
+  public setDriveForce(force: number): void {
+    this.driveForce = force;
+  }
+
+  /**
+   * Damping the jumper adds by holding their legs stiff, used for kills
+   */
+  public setLegDamping(damping: number): void {
+    this.legDamping = damping;
+  }
+
+  /**
+   * Take the jumper off the mat without launching them
+   */
+  public release(): void {
+    this.isLoaded = false;
+    this.driveForce = 0;
+    this.legDamping = 0;
+  }
+
+  /**
+   * Whether the mat reached its deepest point with the jumper on it
+   * during the last step
+   */
+  public hasReachedBottom(): boolean {
+    return this.reachedBottom;
+  }
+
+  /**
+   * Speed the jumper left the mat at during the last step, or null if they
+   * are still on it or were not on it
+   */
+  public getLaunchSpeed(): number | null {
+    return this.launchSpeed;
+  }
+
+  public hasJumper(): boolean {
+    return this.isLoaded;
+  }
+
+  public getPosition(): THREE.Vector3 {
+    return new THREE.Vector3(0, this.getSurfaceHeight(), 0);
+  }
+
+  /**
+   * Height of the mat surface the jumper stands on
+   */
+  public getSurfaceHeight(): number {
+    return this.restPosition - this.compressionAmount;
+  }
+
+  /**
+   * Vertical speed of the mat surface, positive is up
+   */
+  public getSurfaceVelocity(): number {
+    return -this.matVelocity;
+  }
+
+  public getSpec(): TrampolineSpec {
+    return this.spec;
+  }
+
+  /**
+   * Half the size of the bed along x and z
+   */
+  public getHalfExtents(): { x: number; z: number } {
+    return getHalfExtents(this.spec.outline);
+  }
+
+  /**
+   * Whether a point in world coordinates lies over the bed
+   */
+  public isOverBed(x: number, z: number): boolean {
+    const position = this.getPosition();
+    return isInsideOutline(this.spec.outline, x - position.x, z - position.z);
+  }
+
+  public getRestPosition(): number {
+    return this.restPosition;
+  }
+
+  public getCompression(): number {
+    return this.compressionAmount;
+  }
+
+  public getPreviousCompression(): number {
+    return this.previousCompressionAmount;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Outline of the bed. A rectangular bed's length runs along x, the way
+ * somersaults travel, and its width along z.
+ */
+export type TrampolineOutline =
+  | { shape: 'round'; radius: number }
+  | { shape: 'rectangular'; length: number; width: number };
+
+/**
+ * Everything that sets one trampoline model apart from another
+ */
+export interface TrampolineSpec {
+  name: string;
+  outline: TrampolineOutline;
+  stiffness: number; // Spring force per metre of depth, per unit of jumper mass
+  springCount: number; // Springs drawn around the edge of the bed
+  frameColor: number;
+}
+
+export const ROUND_BACKYARD_TRAMPOLINE: TrampolineSpec = {
+  name: 'Round backyard',
+  outline: { shape: 'round', radius: 2.8 },
+  stiffness: 400,
+  springCount: 16,
+  frameColor: 0x444444,
+};
+
+// FIG competition bed, a long narrow rectangle with a stiff, lively mat
+export const COMPETITION_TRAMPOLINE: TrampolineSpec = {
+  name: 'FIG competition',
+  outline: { shape: 'rectangular', length: 5.2, width: 2.6 },
+  stiffness: 600,
+  springCount: 40,
+  frameColor: 0x1e4fa0,
+};
+
+// Double-mini, short and barely wider than the jumper
+export const DOUBLE_MINI_TRAMPOLINE: TrampolineSpec = {
+  name: 'Double-mini',
+  outline: { shape: 'rectangular', length: 3.0, width: 0.9 },
+  stiffness: 700,
+  springCount: 24,
+  frameColor: 0xc62828,
+};
+
+export const TRAMPOLINE_PRESETS = {
+  backyard: ROUND_BACKYARD_TRAMPOLINE,
+  competition: COMPETITION_TRAMPOLINE,
+  'double-mini': DOUBLE_MINI_TRAMPOLINE,
+};
+
+export type TrampolinePreset = keyof typeof TRAMPOLINE_PRESETS;
+
+/**
+ * Half the size of the bed along x and z
+ */
+export function getHalfExtents(outline: TrampolineOutline): {
+  x: number;
+  z: number;
+} {
+  return outline.shape === 'round'
+    ? { x: outline.radius, z: outline.radius }
+    : { x: outline.length / 2, z: outline.width / 2 };
+}
+
+/**
+ * Whether a point, relative to the middle of the bed, lies over the bed
+ */
+export function isInsideOutline(
+  outline: TrampolineOutline,
+  x: number,
+  z: number
+): boolean {
+  if (outline.shape === 'round') {
+    return Math.sqrt(x * x + z * z) < outline.radius;
+  }
+  return Math.abs(x) < outline.length / 2 && Math.abs(z) < outline.width / 2;
+}
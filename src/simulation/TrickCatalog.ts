@@ -0,0 +1,221 @@
+import { LandingPosition } from './LandingPosition';
+
+/**
+ * Way round a somersault turns
+ */
+export type SomersaultDirection = 'front' | 'back';
+
+/**
+ * One skill the game recognises. Detection names a jump after the entry
+ * whose requirements it meets and scoring reads the entry's points, so a
+ * new trick only needs a new entry here.
+ */
+export interface TrickDefinition {
+  name: string;
+  somersaults: number; // Somersault rotation in turns, 0.5 for a half
+  direction?: SomersaultDirection; // Either way round if left out
+  halfTwists: number; // Twist about the long axis in half turns
+  shape?: string; // Shape the body must be in, any shape if left out
+  landing?: LandingPosition; // Drop the skill lands in, the feet if left out
+  basePoints: number;
+  difficulty: number; // Scales the difficulty of the shape it is done in
+}
+
+export const TRICK_CATALOG: TrickDefinition[] = [
+  // Somersaults, named after the shape
+  {
+    name: 'half flip',
+    somersaults: 0.5,
+    halfTwists: 0,
+    basePoints: 50,
+    difficulty: 0.5,
+  },
+  {
+    name: 'flip',
+    somersaults: 1,
+    halfTwists: 0,
+    basePoints: 100,
+    difficulty: 1,
+  },
+  {
+    name: 'tuck flip',
+    somersaults: 1,
+    halfTwists: 0,
+    shape: 'tuck',
+    basePoints: 150,
+    difficulty: 1,
+  },
+  {
+    name: 'pike flip',
+    somersaults: 1,
+    halfTwists: 0,
+    shape: 'pike',
+    basePoints: 200,
+    difficulty: 1,
+  },
+  {
+    name: 'straddle flip',
+    somersaults: 1,
+    halfTwists: 0,
+    shape: 'straddle',
+    basePoints: 250,
+    difficulty: 1,
+  },
+  {
+    name: 'custom flip',
+    somersaults: 1,
+    halfTwists: 0,
+    shape: 'custom',
+    basePoints: 100,
+    difficulty: 1,
+  },
+  {
+    name: 'double flip',
+    somersaults: 2,
+    halfTwists: 0,
+    basePoints: 300,
+    difficulty: 1,
+  },
+  {
+    name: 'triple flip',
+    somersaults: 3,
+    halfTwists: 0,
+    basePoints: 600,
+    difficulty: 1,
+  },
+
+  // Twists with the body upright
+  {
+    name: 'half twist',
+    somersaults: 0,
+    halfTwists: 1,
+    basePoints: 40,
+    difficulty: 1,
+  },
+  {
+    name: 'full twist',
+    somersaults: 0,
+    halfTwists: 2,
+    basePoints: 120,
+    difficulty: 1,
+  },
+
+  // Twisting somersaults
+  {
+    name: 'barani',
+    somersaults: 1,
+    direction: 'front',
+    halfTwists: 1,
+    basePoints: 180,
+    difficulty: 1,
+  },
+  {
+    name: 'back full',
+    somersaults: 1,
+    direction: 'back',
+    halfTwists: 2,
+    basePoints: 300,
+    difficulty: 1,
+  },
+  {
+    name: 'rudolph',
+    somersaults: 1,
+    direction: 'front',
+    halfTwists: 3,
+    basePoints: 350,
+    difficulty: 1,
+  },
+
+  // Drops, landing on something other than the feet
+  {
+    name: 'seat drop',
+    somersaults: 0,
+    halfTwists: 0,
+    landing: 'seat',
+    basePoints: 30,
+    difficulty: 1,
+  },
+  {
+    name: 'knee drop',
+    somersaults: 0,
+    halfTwists: 0,
+    landing: 'knees',
+    basePoints: 20,
+    difficulty: 1,
+  },
+  {
+    name: 'back drop',
+    somersaults: 0,
+    halfTwists: 0,
+    landing: 'back',
+    basePoints: 50,
+    difficulty: 1,
+  },
+  {
+    name: 'front drop',
+    somersaults: 0,
+    halfTwists: 0,
+    landing: 'front',
+    basePoints: 50,
+    difficulty: 1,
+  },
+];
+
+/**
+ * Rotation measured over a jump, to look up in the catalog
+ */
+export interface TrickRequirements {
+  somersaults: number;
+  direction: SomersaultDirection | null; // Null with no somersault
+  halfTwists: number;
+  shape: string;
+  landing?: LandingPosition;
+}
+
+/**
+ * The catalog entry a jump performs. An entry for the jump's exact shape
+ * wins over one done in any shape.
+ * @returns null if the catalog has no such skill
+ */
+export function findTrick(
+  requirements: TrickRequirements
+): TrickDefinition | null {
+  const landing = requirements.landing ?? 'feet';
+  const matches = TRICK_CATALOG.filter(
+    (trick) =>
+      trick.somersaults === requirements.somersaults &&
+      trick.halfTwists === requirements.halfTwists &&
+      (!trick.direction || trick.direction === requirements.direction) &&
+      (!trick.shape || trick.shape === requirements.shape) &&
+      (trick.landing ?? 'feet') === landing
+  );
+
+  return matches.find((trick) => trick.shape) ?? matches[0] ?? null;
+}
+
+/**
+ * The skill a landing position scores on its own, null for the feet
+ */
+export function findDrop(landing: LandingPosition): TrickDefinition | null {
+  if (landing === 'feet') return null;
+  return (
+    TRICK_CATALOG.find(
+      (trick) =>
+        trick.landing === landing &&
+        trick.somersaults === 0 &&
+        trick.halfTwists === 0
+    ) ?? null
+  );
+}
+
+/**
+ * Catalog entry for a trick name
+ * @throws Error if no trick has that name
+ */
+export function getTrickDefinition(name: string): TrickDefinition {
+  const trick = TRICK_CATALOG.find((entry) => entry.name === name);
+  if (!trick) {
+    throw new Error(`Unknown trick "${name}"`);
+  }
+  return trick;
+}
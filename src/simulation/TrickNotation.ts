@@ -0,0 +1,151 @@
+import { Trick } from './CharacterSimulation';
+
+/**
+ * FIG numeric notation for trampoline skills
+ *
+ * A skill is written as the number of quarter somersaults, then one digit
+ * per somersault giving the half twists made in it, then the shape:
+ *
+ *   40o    back tuck: 4 quarters, no twist, tucked
+ *   41/    barani: 4 quarters, a half twist, straight
+ *   801<   double somersault with a half twist in the second, piked
+ *   01     half twist jump, no somersault
+ *
+ * A skill of less than one somersault still has a single twist digit.
+ * Shapes are o (tuck), < (pike), / (straight) and V (straddle); a skill
+ * with no shape symbol can be done in any shape. The notation does not say
+ * which way the body somersaults.
+ */
+
+const SHAPE_SYMBOLS: Record<string, string> = {
+  tuck: 'o',
+  pike: '<',
+  straight: '/',
+  straddle: 'V',
+};
+
+/**
+ * A skill as written in notation, e.g. typed in as a target to practise
+ */
+export interface SkillDescription {
+  quarterSomersaults: number;
+  halfTwistsBySomersault: number[]; // One entry per somersault, at least one
+  shape: string | null; // Null if any shape will do
+}
+
+/**
+ * Thrown when text is not a skill in FIG notation
+ */
+export class TrickNotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrickNotationError';
+  }
+}
+
+/**
+ * Number of twist digits a skill with this much somersault is written with
+ */
+function countTwistDigits(quarterSomersaults: number): number {
+  return Math.max(1, Math.floor(quarterSomersaults / 4));
+}
+
+/**
+ * The skill a trick performed, as it would be written in notation
+ * @returns null for a trick with no rotation, e.g. a drop on its own
+ */
+export function describeTrick(trick: Trick): SkillDescription | null {
+  const quarterSomersaults = Math.round(trick.rotation / 90);
+  const halfTwists = Math.round((trick.twist ?? 0) / 180);
+  if (quarterSomersaults === 0 && halfTwists === 0) return null;
+
+  // Without a breakdown all the twist goes in the last somersault
+  const digits = countTwistDigits(quarterSomersaults);
+  const halfTwistsBySomersault =
+    trick.halfTwistsBySomersault?.length === digits
+      ? [...trick.halfTwistsBySomersault]
+      : Array.from({ length: digits }, (_, i) =>
+          i === digits - 1 ? halfTwists : 0
+        );
+
+  return {
+    quarterSomersaults,
+    halfTwistsBySomersault,
+    shape: trick.shape && SHAPE_SYMBOLS[trick.shape] ? trick.shape : null,
+  };
+}
+
+/**
+ * Write a skill in notation
+ */
+export function formatSkill(skill: SkillDescription): string {
+  const shape = skill.shape ? SHAPE_SYMBOLS[skill.shape] : '';
+  return `${skill.quarterSomersaults}${skill.halfTwistsBySomersault.join('')}${shape}`;
+}
+
+/**
+ * Write a trick in notation, e.g. '41/' for a barani
+ * @returns null for a trick with no rotation
+ */
+export function formatTrickNotation(trick: Trick): string | null {
+  const skill = describeTrick(trick);
+  return skill && formatSkill(skill);
+}
+
+/**
+ * Read a skill written in notation
+ * @throws TrickNotationError if the text is not valid notation
+ */
+export function parseTrickNotation(text: string): SkillDescription {
+  const match = /^(\d+)([o<\/V]?)$/.exec(text.trim());
+  if (!match) {
+    throw new TrickNotationError(
+      `"${text}" is not a skill: write digits followed by o, <, / or V`
+    );
+  }
+
+  const [, digits, symbol] = match;
+  const shape =
+    Object.keys(SHAPE_SYMBOLS).find((name) => SHAPE_SYMBOLS[name] === symbol) ??
+    null;
+
+  // The quarter somersaults take one or two digits, whichever leaves one
+  // twist digit per somersault
+  for (const length of [1, 2]) {
+    const quarterSomersaults = Number(digits.slice(0, length));
+    const twists = digits.slice(length);
+    if (
+      twists.length > 0 &&
+      twists.length === countTwistDigits(quarterSomersaults)
+    ) {
+      if (quarterSomersaults === 0 && twists === '0') {
+        throw new TrickNotationError(`"${text}" has no somersault or twist`);
+      }
+      return {
+        quarterSomersaults,
+        halfTwistsBySomersault: [...twists].map(Number),
+        shape,
+      };
+    }
+  }
+
+  throw new TrickNotationError(
+    `"${text}" does not give one twist digit for each somersault`
+  );
+}
+
+/**
+ * Whether a trick performed the skill described. A skill with no shape
+ * can be done in any shape.
+ */
+export function matchesSkill(trick: Trick, skill: SkillDescription): boolean {
+  const performed = describeTrick(trick);
+  if (!performed) return false;
+
+  return (
+    performed.quarterSomersaults === skill.quarterSomersaults &&
+    performed.halfTwistsBySomersault.join() ===
+      skill.halfTwistsBySomersault.join() &&
+    (!skill.shape || performed.shape === skill.shape)
+  );
+}
@@ -0,0 +1,60 @@
+import { BounceTiming } from '../simulation/Simulation';
+
+/**
+ * Short label for how a pump or kill was timed
+ */
+export function describeBounceTiming(timing: BounceTiming): string {
+  if (timing.kind === 'kill') {
+    if (timing.accuracy >= 0.75) return 'Perfect kill!';
+    return timing.accuracy >= 0.4 ? 'Good kill' : 'Kill, held too early';
+  }
+  if (timing.accuracy >= 0.75) {
+    return 'Perfect pump!';
+  }
+  if (timing.accuracy >= 0.4) {
+    return 'Good pump';
+  }
+  return timing.offset < 0 ? 'Too early' : 'Too late';
+}
+
+/**
+ * Flashes pump and kill timing feedback in the middle of the screen
+ */
+export class BounceTimingDisplay {
+  private element: HTMLDivElement;
+  private hideTimeout: number | null = null;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.id = 'bounce-timing-display';
+    this.element.style.position = 'absolute';
+    this.element.style.bottom = '220px';
+    this.element.style.left = '50%';
+    this.element.style.transform = 'translateX(-50%)';
+    this.element.style.fontSize = '22px';
+    this.element.style.fontWeight = 'bold';
+    this.element.style.textShadow = '2px 2px 4px rgba(0, 0, 0, 0.5)';
+    this.element.style.pointerEvents = 'none';
+    this.element.style.userSelect = 'none';
+    this.element.style.opacity = '0';
+    this.element.style.transition = 'opacity 0.3s';
+    document.body.appendChild(this.element);
+  }
+
+  public show(timing: BounceTiming): void {
+    this.element.textContent = describeBounceTiming(timing);
+
+    // Green for a clean pump or kill, fading to red as the timing gets worse
+    const hue = Math.round(timing.accuracy * 120);
+    this.element.style.color = `hsl(${hue}, 90%, 60%)`;
+    this.element.style.opacity = '1';
+
+    if (this.hideTimeout !== null) {
+      window.clearTimeout(this.hideTimeout);
+    }
+    this.hideTimeout = window.setTimeout(() => {
+      this.element.style.opacity = '0';
+      this.hideTimeout = null;
+    }, 800);
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  ChainEnd,
+  formatChainName,
+  ScoreKeeper,
+} from '../simulation/ScoreKeeper';
+
+// How long the meter keeps showing a chain after it ends, in milliseconds
+const ENDED_CHAIN_DISPLAY_TIME = 1500;
+
+/**
+ * Combo chain under way: its name, multiplier and a bar that drains until
+ * the next skill lands
+ */
+export class ComboMeter {
+  private container: HTMLDivElement;
+  private label: HTMLDivElement;
+  private bar: HTMLDivElement;
+  private fill: HTMLDivElement;
+  private endedTimeout: number | null = null;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'combo-meter';
+    this.container.style.position = 'absolute';
+    this.container.style.top = '90px';
+    this.container.style.left = '20px';
+    this.container.style.width = '260px';
+    this.container.style.pointerEvents = 'none';
+    this.container.style.userSelect = 'none';
+    this.container.style.display = 'none';
+
+    this.label = document.createElement('div');
+    this.label.style.fontSize = '16px';
+    this.label.style.fontWeight = 'bold';
+    this.label.style.color = 'white';
+    this.label.style.textShadow = '1px 1px 2px rgba(0, 0, 0, 0.7)';
+    this.label.style.marginBottom = '4px';
+
+    this.bar = document.createElement('div');
+    this.bar.style.height = '8px';
+    this.bar.style.borderRadius = '4px';
+    this.bar.style.backgroundColor = 'rgba(255, 255, 255, 0.25)';
+    this.bar.style.overflow = 'hidden';
+
+    this.fill = document.createElement('div');
+    this.fill.style.height = '100%';
+    this.fill.style.backgroundColor = '#FFD700';
+
+    this.bar.appendChild(this.fill);
+    this.container.appendChild(this.label);
+    this.container.appendChild(this.bar);
+    document.body.appendChild(this.container);
+  }
+
+  /**
+   * Redraw from the score keeper, called every frame
+   * @param time Simulation time in seconds
+   */
+  public update(scoreKeeper: ScoreKeeper, time: number): void {
+    // Leave an ended chain on screen for a moment
+    if (this.endedTimeout !== null) return;
+
+    const chain = scoreKeeper.getChain();
+    if (!chain) {
+      this.container.style.display = 'none';
+      return;
+    }
+
+    this.label.textContent = `${formatChainName(chain)} x${chain.multiplier}`;
+    this.label.style.color = 'white';
+    this.fill.style.width = `${scoreKeeper.getChainTimeLeft(time) * 100}%`;
+    this.container.style.display = 'block';
+  }
+
+  /**
+   * Show how a chain ended before the meter clears
+   */
+  public showEnd(end: ChainEnd): void {
+    const reasons: Record<ChainEnd['reason'], string> = {
+      timeout: 'Chain over',
+      crash: 'Chain lost in the crash',
+      bail: 'Chain lost in the bail',
+      kill: 'Chain finished',
+    };
+    this.label.textContent = `${reasons[end.reason]}: ${formatChainName(end.chain)}`;
+    this.label.style.color = end.reason === 'kill' ? '#FFD700' : '#ff8a80';
+    this.fill.style.width = '0%';
+    this.container.style.display = 'block';
+
+    if (this.endedTimeout !== null) {
+      window.clearTimeout(this.endedTimeout);
+    }
+    this.endedTimeout = window.setTimeout(() => {
+      this.endedTimeout = null;
+    }, ENDED_CHAIN_DISPLAY_TIME);
+  }
+}
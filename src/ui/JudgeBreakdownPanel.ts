@@ -0,0 +1,109 @@
+import { RoutineJudgement } from '../simulation/JudgePanel';
+import { getTrickName } from '../simulation/LandingPosition';
+import { formatTrickNotation } from '../simulation/TrickNotation';
+
+/**
+ * Table of every judge's marks for the routine just finished: one row
+ * per skill, then each judge's execution mark with the dropped highest
+ * and lowest struck through, then the routine totals
+ */
+export class JudgeBreakdownPanel {
+  private container: HTMLDivElement;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'judge-breakdown-panel';
+    this.container.style.position = 'absolute';
+    this.container.style.top = '50%';
+    this.container.style.left = '50%';
+    this.container.style.transform = 'translate(-50%, -50%)';
+    this.container.style.padding = '12px 16px';
+    this.container.style.borderRadius = '8px';
+    this.container.style.backgroundColor = 'rgba(0, 0, 0, 0.75)';
+    this.container.style.color = 'white';
+    this.container.style.fontSize = '14px';
+    this.container.style.fontFamily = 'monospace';
+    this.container.style.zIndex = '40';
+    this.container.style.cursor = 'pointer';
+    this.container.style.display = 'none';
+    this.container.title = 'Click to close';
+    this.container.addEventListener('click', () => this.hide());
+    document.body.appendChild(this.container);
+  }
+
+  /**
+   * Show the marks for a routine
+   * @param notes Extra lines under the totals, e.g. rules broken
+   */
+  public show(judgement: RoutineJudgement, notes: string[] = []): void {
+    const judges = judgement.executionByJudge.map((_, i) => `J${i + 1}`);
+    const table = document.createElement('table');
+    table.style.borderCollapse = 'collapse';
+
+    this.addRow(table, ['Skill', 'DD', 'ToF', ...judges], true);
+    for (const skill of judgement.skills) {
+      const name = skill.trick
+        ? `${getTrickName(skill.trick)} ${formatTrickNotation(skill.trick) ?? ''}`
+        : 'no skill';
+      this.addRow(table, [
+        name,
+        skill.difficulty.toFixed(1),
+        skill.timeOfFlight.toFixed(2),
+        ...skill.deductions.map((deduction) => `-${deduction.toFixed(1)}`),
+      ]);
+    }
+
+    const execution = this.addRow(table, [
+      'Execution',
+      '',
+      '',
+      ...judgement.executionByJudge.map((mark) => mark.toFixed(1)),
+    ]);
+    for (const judge of judgement.droppedJudges) {
+      execution.cells[judge + 3].style.textDecoration = 'line-through';
+      execution.cells[judge + 3].style.opacity = '0.5';
+    }
+
+    const totals = document.createElement('div');
+    totals.style.marginTop = '8px';
+    totals.style.fontWeight = 'bold';
+    totals.textContent =
+      `E ${judgement.execution.toFixed(1)}  ` +
+      `D ${judgement.difficulty.toFixed(1)}  ` +
+      `T ${judgement.timeOfFlight.toFixed(3)}  ` +
+      `Total ${judgement.total.toFixed(3)}`;
+
+    const noteLines = notes.map((note) => {
+      const line = document.createElement('div');
+      line.style.marginTop = '4px';
+      line.style.color = '#ffb74d';
+      line.textContent = note;
+      return line;
+    });
+
+    this.container.replaceChildren(table, totals, ...noteLines);
+    this.container.style.display = 'block';
+  }
+
+  public hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  private addRow(
+    table: HTMLTableElement,
+    values: string[],
+    isHeader: boolean = false
+  ): HTMLTableRowElement {
+    const row = table.insertRow();
+    for (const value of values) {
+      const cell = row.insertCell();
+      cell.textContent = value;
+      cell.style.padding = '2px 8px';
+      if (isHeader) {
+        cell.style.fontWeight = 'bold';
+        cell.style.borderBottom = '1px solid rgba(255, 255, 255, 0.4)';
+      }
+    }
+    return row;
+  }
+}
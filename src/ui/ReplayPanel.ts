@@ -0,0 +1,105 @@
+/**
+ * Buttons for saving the best run to a file and loading a replay file
+ */
+export class ReplayPanel {
+  private container: HTMLDivElement;
+  private fileInput: HTMLInputElement;
+  private message: HTMLDivElement;
+  private onDownload: () => { fileName: string; contents: string };
+  private onLoad: (contents: string) => void;
+
+  constructor(
+    onDownload: () => { fileName: string; contents: string },
+    onLoad: (contents: string) => void
+  ) {
+    this.onDownload = onDownload;
+    this.onLoad = onLoad;
+
+    this.container = document.createElement('div');
+    this.container.id = 'replay-panel';
+    this.container.style.position = 'absolute';
+    this.container.style.bottom = '20px';
+    this.container.style.right = '20px';
+    this.container.style.display = 'flex';
+    this.container.style.flexDirection = 'column';
+    this.container.style.alignItems = 'flex-end';
+    this.container.style.gap = '6px';
+    this.container.style.zIndex = '30';
+
+    const downloadButton = this.createButton('Download Replay');
+    downloadButton.addEventListener('click', () => this.download());
+
+    const loadButton = this.createButton('Load Replay');
+    loadButton.addEventListener('click', () => this.fileInput.click());
+
+    // Hidden file picker opened by the load button
+    this.fileInput = document.createElement('input');
+    this.fileInput.type = 'file';
+    this.fileInput.accept = '.json,application/json';
+    this.fileInput.style.display = 'none';
+    this.fileInput.addEventListener('change', () => this.readSelectedFile());
+
+    this.message = document.createElement('div');
+    this.message.style.maxWidth = '260px';
+    this.message.style.fontSize = '14px';
+    this.message.style.textAlign = 'right';
+    this.message.style.textShadow = '1px 1px 2px rgba(0, 0, 0, 0.7)';
+
+    this.container.appendChild(downloadButton);
+    this.container.appendChild(loadButton);
+    this.container.appendChild(this.fileInput);
+    this.container.appendChild(this.message);
+    document.body.appendChild(this.container);
+  }
+
+  private createButton(label: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.innerText = label;
+    button.style.padding = '6px 12px';
+    button.style.backgroundColor = '#3f51b5';
+    button.style.color = 'white';
+    button.style.border = 'none';
+    button.style.borderRadius = '5px';
+    button.style.cursor = 'pointer';
+    return button;
+  }
+
+  private download(): void {
+    const { fileName, contents } = this.onDownload();
+    const blob = new Blob([contents], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+
+    URL.revokeObjectURL(url);
+    this.showMessage(`Saved ${fileName}`, false);
+  }
+
+  private readSelectedFile(): void {
+    const file = this.fileInput.files?.[0];
+    if (!file) return;
+
+    file.text().then((contents) => {
+      try {
+        this.onLoad(contents);
+        this.showMessage(`Playing ${file.name}`, false);
+      } catch (error) {
+        this.showMessage((error as Error).message, true);
+      }
+    });
+
+    // Allow the same file to be picked again
+    this.fileInput.value = '';
+  }
+
+  /**
+   * Show a status line under the buttons
+   */
+  public showMessage(text: string, isError: boolean): void {
+    this.message.textContent = text;
+    this.message.style.color = isError ? '#ff8a80' : 'white';
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  CompetitionRoutine,
+  ROUTINE_LENGTH,
+} from '../simulation/CompetitionRoutine';
+
+/**
+ * Shows how far through a competition routine the player is, and the
+ * latest rule they broke
+ */
+export class RoutineProgressDisplay {
+  private element: HTMLDivElement;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.id = 'routine-progress-display';
+    this.element.style.position = 'absolute';
+    this.element.style.top = '20px';
+    this.element.style.left = '50%';
+    this.element.style.transform = 'translateX(-50%)';
+    this.element.style.fontSize = '18px';
+    this.element.style.fontWeight = 'bold';
+    this.element.style.textAlign = 'center';
+    this.element.style.color = 'white';
+    this.element.style.textShadow = '2px 2px 4px rgba(0, 0, 0, 0.5)';
+    this.element.style.pointerEvents = 'none';
+    this.element.style.userSelect = 'none';
+    this.element.style.display = 'none';
+    document.body.appendChild(this.element);
+  }
+
+  public update(routine: CompetitionRoutine): void {
+    const count = routine.getSkillCount();
+    const violations = routine.getViolations();
+    const latest = violations[violations.length - 1];
+
+    this.element.textContent =
+      count === 0
+        ? 'Routine: bounce, then start your first skill'
+        : `Routine: skill ${count} of ${ROUTINE_LENGTH}`;
+    if (latest) {
+      const warning = document.createElement('div');
+      warning.style.fontSize = '14px';
+      warning.style.color = '#ffb74d';
+      warning.textContent = latest.message;
+      this.element.appendChild(warning);
+    }
+    this.element.style.display = 'block';
+  }
+
+  public hide(): void {
+    this.element.style.display = 'none';
+  }
+}
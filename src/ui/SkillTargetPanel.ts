@@ -0,0 +1,86 @@
+import {
+  formatSkill,
+  parseTrickNotation,
+  SkillDescription,
+} from '../simulation/TrickNotation';
+
+/**
+ * Text box for typing a skill to practise in FIG notation, e.g. 41/
+ */
+export class SkillTargetPanel {
+  private container: HTMLDivElement;
+  private input: HTMLInputElement;
+  private message: HTMLDivElement;
+  private target: SkillDescription | null = null;
+
+  constructor() {
+    this.container = document.createElement('div');
+    this.container.id = 'skill-target-panel';
+    this.container.style.position = 'absolute';
+    this.container.style.top = '20px';
+    this.container.style.right = '20px';
+    this.container.style.display = 'flex';
+    this.container.style.flexDirection = 'column';
+    this.container.style.alignItems = 'flex-end';
+    this.container.style.gap = '6px';
+    this.container.style.zIndex = '30';
+
+    this.input = document.createElement('input');
+    this.input.type = 'text';
+    this.input.placeholder = 'Practise a skill, e.g. 41/';
+    this.input.style.width = '180px';
+    this.input.style.padding = '6px';
+    this.input.style.borderRadius = '5px';
+    this.input.style.border = 'none';
+    this.input.addEventListener('change', () => this.readTarget());
+
+    // Typing must not reach the game's keyboard controls
+    this.input.addEventListener('keydown', (event) => event.stopPropagation());
+    this.input.addEventListener('keyup', (event) => event.stopPropagation());
+
+    this.message = document.createElement('div');
+    this.message.style.maxWidth = '260px';
+    this.message.style.fontSize = '14px';
+    this.message.style.textAlign = 'right';
+    this.message.style.textShadow = '1px 1px 2px rgba(0, 0, 0, 0.7)';
+
+    this.container.appendChild(this.input);
+    this.container.appendChild(this.message);
+    document.body.appendChild(this.container);
+  }
+
+  /**
+   * Skill the player is practising, or null if none is set
+   */
+  public getTarget(): SkillDescription | null {
+    return this.target;
+  }
+
+  private readTarget(): void {
+    const text = this.input.value.trim();
+    if (!text) {
+      this.target = null;
+      this.showMessage('', false);
+      return;
+    }
+
+    try {
+      this.target = parseTrickNotation(text);
+      this.showMessage(`Practising ${formatSkill(this.target)}`, false);
+    } catch (error) {
+      this.target = null;
+      this.showMessage((error as Error).message, true);
+    }
+
+    // Hand the keyboard back to the game
+    this.input.blur();
+  }
+
+  /**
+   * Show a status line under the text box
+   */
+  public showMessage(text: string, isError: boolean): void {
+    this.message.textContent = text;
+    this.message.style.color = isError ? '#ff8a80' : 'white';
+  }
+}
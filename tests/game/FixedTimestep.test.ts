@@ -0,0 +1,32 @@
+import { FixedTimestep } from '../../src/game/FixedTimestep';
+
+describe('FixedTimestep', () => {
+  test('should run the same number of ticks regardless of frame rate', () => {
+    const countTicks = (frameRate: number): number => {
+      const timestep = new FixedTimestep(1 / 60);
+      let ticks = 0;
+      for (let i = 0; i < frameRate; i++) {
+        timestep.advance(1 / frameRate, () => ticks++);
+      }
+      return ticks;
+    };
+
+    // One simulated second gives 60 ticks (allowing for float rounding)
+    expect(Math.abs(countTicks(60) - 60)).toBeLessThanOrEqual(1);
+    expect(Math.abs(countTicks(144) - 60)).toBeLessThanOrEqual(1);
+    expect(Math.abs(countTicks(30) - 60)).toBeLessThanOrEqual(1);
+  });
+
+  test('should return the leftover fraction for interpolation', () => {
+    const timestep = new FixedTimestep(0.1);
+    const alpha = timestep.advance(0.25, () => {});
+    expect(timestep.getTickCount()).toBe(2);
+    expect(alpha).toBeCloseTo(0.5);
+  });
+
+  test('should cap very long frames', () => {
+    const timestep = new FixedTimestep(0.125, 0.5);
+    timestep.advance(10, () => {});
+    expect(timestep.getTickCount()).toBe(4);
+  });
+});
@@ -1,4 +1,6 @@
-import { Physics } from '../../src/game/Physics';
+import { Physics, PHYSICS_CONSTANTS } from '../../src/game/Physics';
+import { CharacterSimulation } from '../../src/simulation/CharacterSimulation';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
 
 describe('Physics', () => {
   let physics: Physics;
@@ -8,8 +10,36 @@ describe('Physics', () => {
   });
 
   test('should calculate correct bounce force', () => {
-    const landingQuality = 1.0; // Perfect landing
-    const force = physics.calculateBounceForce(landingQuality);
+    const launchSpeed = 10; // Speed the mat returns the character at
+    const force = physics.calculateBounceForce(launchSpeed);
     expect(force).toBeGreaterThan(0);
+    expect(physics.calculateBounceForce(100)).toBe(
+      PHYSICS_CONSTANTS.maxBounceForce
+    );
+  });
+
+  test('should push harder off the mat after a cleaner landing', () => {
+    expect(physics.calculateLegDrive(1.0)).toBeGreaterThan(
+      physics.calculateLegDrive(0.3)
+    );
+  });
+
+  test('should mark down a landing for spin left unchecked', () => {
+    const still = new CharacterSimulation();
+    const spinning = new CharacterSimulation();
+    still.bounce(5);
+    spinning.bounce(5);
+
+    // Start a spin and let go, leaving it turning
+    for (let i = 0; i < 6; i++) {
+      const x = i < 3 ? 1 : 0;
+      spinning.step(FIXED_TIMESTEP, { x, y: 0 }, 'straight');
+      still.step(FIXED_TIMESTEP, { x: 0, y: 0 }, 'straight');
+    }
+
+    expect(spinning.getResidualAngularVelocity()).toBeGreaterThan(0);
+    expect(physics.calculateLandingQuality(spinning)).toBeLessThan(
+      physics.calculateLandingQuality(still)
+    );
   });
 });
@@ -0,0 +1,59 @@
+import { CharacterSimulation } from '../../src/simulation/CharacterSimulation';
+import { DEFAULT_CHARACTER_STATS } from '../../src/simulation/CharacterStats';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const spinFor = (character: CharacterSimulation, ticks: number): void => {
+  for (let i = 0; i < ticks; i++) {
+    character.step(FIXED_TIMESTEP, { x: 1, y: 0 }, 'straight');
+  }
+};
+
+describe('Air control', () => {
+  test('should keep spinning after the input is released', () => {
+    const character = new CharacterSimulation();
+    character.bounce(15);
+    spinFor(character, 30);
+    const speed = character.getRotationSpeed();
+
+    character.step(FIXED_TIMESTEP, { x: 0, y: 0 }, 'straight');
+    expect(character.getRotationSpeed()).toBe(speed);
+    expect(speed).toBeGreaterThan(0);
+  });
+
+  test('should build spin up over time rather than at once', () => {
+    const character = new CharacterSimulation();
+    character.bounce(15);
+    spinFor(character, 1);
+    const first = character.getRotationSpeed();
+    spinFor(character, 1);
+
+    expect(character.getRotationSpeed()).toBeCloseTo(first * 2);
+  });
+
+  test('should stop the spin when the player counters it', () => {
+    const character = new CharacterSimulation();
+    character.bounce(15);
+    spinFor(character, 30);
+    for (let i = 0; i < 30; i++) {
+      character.step(FIXED_TIMESTEP, { x: -1, y: 0 }, 'straight');
+    }
+
+    expect(character.getRotationSpeed()).toBeCloseTo(0);
+  });
+
+  test('should give more torque with more air control', () => {
+    const novice = new CharacterSimulation();
+    const expert = new CharacterSimulation({
+      ...DEFAULT_CHARACTER_STATS,
+      airControl: 2,
+    });
+    novice.bounce(15);
+    expert.bounce(15);
+    spinFor(novice, 10);
+    spinFor(expert, 10);
+
+    expect(expert.getRotationSpeed()).toBeCloseTo(
+      novice.getRotationSpeed() * 2
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import {
+  findLowestContact,
+  getBodyContactPoints,
+} from '../../src/simulation/BodyContact';
+import { createDefaultPose, LimbPositions } from '../../src/simulation/Pose';
+import { Simulation } from '../../src/simulation/Simulation';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+// Knees pulled up to the chest with the feet tucked under the seat
+const tucked: LimbPositions = {
+  leftArmLegPath: [
+    { x: 0.4, y: 1.4 },
+    { x: 0.5, y: 1.1 },
+    { x: 0.4, y: 0.9 },
+    { x: 0.2, y: 0.5 },
+    { x: 0.3, y: 1.0 },
+    { x: 0.25, y: 0.4 },
+  ],
+  rightArmLegPath: [
+    { x: -0.4, y: 1.4 },
+    { x: -0.5, y: 1.1 },
+    { x: -0.4, y: 0.9 },
+    { x: -0.2, y: 0.5 },
+    { x: -0.3, y: 1.0 },
+    { x: -0.25, y: 0.4 },
+  ],
+};
+
+describe('BodyContact', () => {
+  test('should touch down on the feet when upright and straight', () => {
+    const lowest = findLowestContact(
+      getBodyContactPoints(new THREE.Euler(0, 0, 0, 'ZYX'), createDefaultPose())
+    );
+
+    expect(lowest.part).toBe('foot');
+    expect(lowest.y).toBeCloseTo(-0.73);
+  });
+
+  test('should touch down on the hands when upside down', () => {
+    const lowest = findLowestContact(
+      getBodyContactPoints(
+        new THREE.Euler(0, 0, Math.PI, 'ZYX'),
+        createDefaultPose()
+      )
+    );
+
+    // The raised hands reach past the head
+    expect(lowest.part).toBe('hand');
+    expect(lowest.y).toBeCloseTo(-2.08);
+  });
+
+  test('should touch down above the hips when tucked', () => {
+    const lowest = findLowestContact(
+      getBodyContactPoints(new THREE.Euler(0, 0, 0, 'ZYX'), tucked)
+    );
+
+    expect(lowest.y).toBeGreaterThan(0);
+  });
+
+  test('should fall further before a tucked body reaches the mat', () => {
+    const fallUntilContact = (shape: LimbPositions | null): number => {
+      const simulation = new Simulation();
+      let ticks = 0;
+      while (!simulation.trampoline.hasJumper() && ticks < 600) {
+        simulation.step(FIXED_TIMESTEP, {
+          rotation: { x: 0, y: 0 },
+          shape: 'straight',
+          customShape: ticks === 0 ? shape : undefined,
+        });
+        ticks++;
+      }
+      return ticks;
+    };
+
+    expect(fallUntilContact(tucked)).toBeGreaterThan(fallUntilContact(null));
+  });
+});
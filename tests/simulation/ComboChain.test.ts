@@ -0,0 +1,109 @@
+import { formatChainName, ScoreKeeper } from '../../src/simulation/ScoreKeeper';
+import { Trick } from '../../src/simulation/CharacterSimulation';
+import { Simulation, SimulationInput } from '../../src/simulation/Simulation';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const trick = (type: string, shape = 'straight'): Trick => ({
+  type,
+  rotation: 360,
+  shape,
+  difficultyMultiplier: 1,
+});
+
+describe('Combo chains', () => {
+  test('should name the chain and raise the multiplier', () => {
+    const keeper = new ScoreKeeper();
+    keeper.calculatePoints(trick('tuck flip', 'tuck'), 1, 1);
+    keeper.calculatePoints(trick('pike flip', 'pike'), 1, 4);
+    keeper.calculatePoints(trick('barani'), 1, 7);
+
+    const chain = keeper.getChain();
+    expect(chain && formatChainName(chain)).toBe(
+      'Tuck Flip → Pike Flip → Barani'
+    );
+    expect(chain?.multiplier).toBe(2);
+  });
+
+  test('should not extend the chain with the same skill again', () => {
+    const keeper = new ScoreKeeper();
+    const first = keeper.calculatePoints(trick('barani'), 1, 1);
+    keeper.calculatePoints(trick('barani'), 1, 2);
+
+    expect(keeper.getChain()?.skills).toEqual(['barani']);
+    // The chain keeps draining from the first barani
+    expect(keeper.getChainTimeLeft(3.5)).toBeCloseTo(0.5);
+    expect(first).toBeGreaterThan(0);
+  });
+
+  test('should drain and end the chain in simulation time', () => {
+    const keeper = new ScoreKeeper();
+    keeper.calculatePoints(trick('barani'), 1, 10);
+
+    expect(keeper.getChainTimeLeft(10)).toBe(1);
+    expect(keeper.expireChain(14)).toBeNull();
+    expect(keeper.expireChain(16)?.reason).toBe('timeout');
+    expect(keeper.getChain()).toBeNull();
+    expect(keeper.getChainTimeLeft(16)).toBe(0);
+  });
+
+  test('should end the chain on a kill', () => {
+    const simulation = new Simulation();
+    const idle: SimulationInput = { rotation: { x: 0, y: 0 }, shape: '' };
+    const spin: SimulationInput = { rotation: { x: 1, y: 0 }, shape: '' };
+    const counter: SimulationInput = { rotation: { x: -1, y: 0 }, shape: '' };
+
+    while (!simulation.step(FIXED_TIMESTEP, idle)) {
+      // Fall onto the mat
+    }
+
+    // Flip to start a chain
+    let landing = null;
+    for (let i = 0; i < 600 && !landing; i++) {
+      const input = i < 55 ? spin : i < 110 ? counter : idle;
+      landing = simulation.step(FIXED_TIMESTEP, input);
+    }
+    expect(simulation.scoreKeeper.getChain()).not.toBeNull();
+
+    // Hold the button through the next landing
+    let chainEnd = null;
+    for (let i = 0; i < 600 && !chainEnd; i++) {
+      simulation.step(FIXED_TIMESTEP, { ...idle, pump: true });
+      chainEnd = simulation.getChainEnd();
+    }
+
+    expect(chainEnd?.reason).toBe('kill');
+    expect(chainEnd?.chain.skills).toEqual(['front flip']);
+    expect(simulation.scoreKeeper.getChain()).toBeNull();
+  });
+
+  test('should end the chain with a skill landed into a kill', () => {
+    const simulation = new Simulation();
+    const idle: SimulationInput = { rotation: { x: 0, y: 0 }, shape: '' };
+    const spin: SimulationInput = { rotation: { x: 1, y: 0 }, shape: '' };
+    const counter: SimulationInput = { rotation: { x: -1, y: 0 }, shape: '' };
+
+    while (!simulation.step(FIXED_TIMESTEP, idle)) {
+      // Fall onto the mat
+    }
+
+    // Flip, then hold the button to kill the bounce as it lands
+    let chainEnd = null;
+    for (let i = 0; i < 600 && !chainEnd; i++) {
+      const input = i < 55 ? spin : i < 110 ? counter : { ...idle, pump: true };
+      simulation.step(FIXED_TIMESTEP, input);
+      chainEnd = simulation.getChainEnd();
+    }
+
+    expect(chainEnd?.reason).toBe('kill');
+    expect(chainEnd?.chain.skills).toEqual(['front flip']);
+
+    // Let go, wait for the mat to settle, then press once to jump out
+    for (let i = 0; i < 120; i++) {
+      simulation.step(FIXED_TIMESTEP, idle);
+    }
+    const landing = simulation.step(FIXED_TIMESTEP, { ...idle, pump: true });
+
+    expect(landing?.trick).not.toBeNull();
+    expect(simulation.scoreKeeper.getChain()).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  CompetitionRoutine,
+  ROUTINE_LENGTH,
+} from '../../src/simulation/CompetitionRoutine';
+import { LandingEvent } from '../../src/simulation/Simulation';
+import { Trick } from '../../src/simulation/CharacterSimulation';
+import { calculateSkillDifficulty } from '../../src/simulation/JudgePanel';
+
+const skill = (rotation: number, twist: number, shape = 'tuck'): Trick => ({
+  type: 'flip',
+  rotation,
+  twist,
+  shape,
+  direction: 'back',
+  difficultyMultiplier: 1,
+});
+
+/**
+ * A bounce as the simulation reports it, landed cleanly after a second in
+ * the air
+ */
+const bounce = (trick: Trick | null, isKill = false): LandingEvent => ({
+  landingPosition: 'feet',
+  landingQuality: 1,
+  bounceForce: 10,
+  trick,
+  points: 0,
+  isNewHighScore: false,
+  judgedSkill: {
+    trick,
+    difficulty: calculateSkillDifficulty(trick),
+    timeOfFlight: 1,
+    deductions: [0.1, 0.1, 0.1, 0.1, 0.1],
+  },
+  isKill,
+});
+
+// Ten different skills: half twists 0-4 in a single and a double
+const TEN_SKILLS = [360, 720].flatMap((rotation) =>
+  [0, 1, 2, 3, 4].map((halfTwists) => skill(rotation, halfTwists * 180))
+);
+
+describe('CompetitionRoutine', () => {
+  test('should score a complete routine on the tenth skill', () => {
+    const routine = new CompetitionRoutine();
+    const results = TEN_SKILLS.map((trick) => routine.addBounce(bounce(trick)));
+
+    const result = results[ROUTINE_LENGTH - 1];
+    expect(results.slice(0, -1).every((r) => r === null)).toBe(true);
+    expect(result?.ending).toBe('complete');
+    expect(result?.violations).toHaveLength(0);
+    expect(result?.judgement?.execution).toBeCloseTo(27);
+    expect(result?.judgement?.timeOfFlight).toBeCloseTo(10);
+    expect(result?.score).toBeCloseTo(result?.judgement?.total ?? -1);
+  });
+
+  test('should not start until the first skill', () => {
+    const routine = new CompetitionRoutine();
+
+    expect(routine.addBounce(bounce(null))).toBeNull();
+    expect(routine.getSkillCount()).toBe(0);
+  });
+
+  test('should score no difficulty for a repeated skill', () => {
+    const routine = new CompetitionRoutine();
+    routine.addBounce(bounce(skill(360, 0)));
+    routine.addBounce(bounce(skill(360, 0)));
+    const result = routine.addBounce(bounce(skill(720, 0), true));
+
+    expect(result?.ending).toBe('stopped');
+    expect(result?.violations.map((v) => v.rule)).toEqual([
+      'repeat',
+      'stopped',
+    ]);
+    expect(result?.judgement?.difficulty).toBeCloseTo(0.5 + 1);
+  });
+
+  test('should end the routine on a bounce with no skill', () => {
+    const routine = new CompetitionRoutine();
+    routine.addBounce(bounce(skill(360, 0)));
+    const result = routine.addBounce(bounce(null));
+
+    expect(result?.ending).toBe('interrupted');
+    expect(result?.judgement?.skills).toHaveLength(1);
+    expect(routine.isFinished()).toBe(true);
+    expect(routine.addBounce(bounce(skill(720, 0)))).toBeNull();
+  });
+
+  test('should take a penalty for leaving the mat', () => {
+    const routine = new CompetitionRoutine();
+    routine.addBounce(bounce(skill(360, 0)));
+    const result = routine.addCrash({ kind: 'bail', penalty: 100 });
+
+    expect(result?.ending).toBe('left mat');
+    expect(result?.score).toBeCloseTo((result?.judgement?.total ?? 0) - 1);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  calculateMomentOfInertia,
+  STRAIGHT_MOMENT_OF_INERTIA,
+} from '../../src/simulation/Inertia';
+import { CharacterSimulation } from '../../src/simulation/CharacterSimulation';
+import { LimbPositions, Point } from '../../src/simulation/Pose';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const mirrored = (left: Point[]): LimbPositions => ({
+  leftArmLegPath: left,
+  rightArmLegPath: left.map((p) => ({ x: -p.x, y: p.y })),
+});
+
+// Arms hugging the body and knees pulled up to the chest
+const tuck = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: 0.5, y: 1.1 },
+  { x: 0.45, y: 0.8 },
+  { x: 0.2, y: 0.5 },
+  { x: 0.45, y: 0.9 },
+  { x: 0.35, y: 0.4 },
+]);
+
+// Arms and legs spread wide
+const star = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: 0.8, y: 1.8 },
+  { x: 1.1, y: 2.1 },
+  { x: 0.2, y: 0.5 },
+  { x: 0.6, y: 0.0 },
+  { x: 1.0, y: -0.5 },
+]);
+
+describe('Inertia', () => {
+  test('should be lower for compact shapes and higher for open ones', () => {
+    const tuckInertia = calculateMomentOfInertia(tuck);
+    const starInertia = calculateMomentOfInertia(star);
+
+    expect(tuckInertia).toBeLessThan(STRAIGHT_MOMENT_OF_INERTIA);
+    expect(starInertia).toBeGreaterThan(STRAIGHT_MOMENT_OF_INERTIA);
+  });
+
+  test('should conserve angular momentum when the shape changes', () => {
+    const character = new CharacterSimulation();
+    const input = { x: 1, y: 0 };
+
+    character.step(FIXED_TIMESTEP, input, 'straight');
+    const straightSpeed = character.getRotationSpeed();
+    const momentum = character.getAngularMomentum();
+
+    // Let go so nothing but the shape change affects the spin
+    character.setCustomShape(tuck);
+    character.step(FIXED_TIMESTEP, { x: 0, y: 0 }, 'custom');
+
+    expect(character.getAngularMomentum()).toBeCloseTo(momentum);
+    expect(character.getRotationSpeed()).toBeGreaterThan(straightSpeed);
+    expect(character.getRotationSpeed() * character.getMomentOfInertia()).toBe(
+      character.getAngularMomentum()
+    );
+  });
+
+  test('should make open shapes count as harder tricks', () => {
+    const character = new CharacterSimulation();
+    expect(character.getShapeDifficulty()).toBe(1);
+
+    const reachShape = (shape: LimbPositions): void => {
+      character.setCustomShape(shape);
+      while (character.getShapeTransitionProgress() !== null) {
+        character.step(FIXED_TIMESTEP, { x: 0, y: 0 }, 'custom');
+      }
+    };
+
+    reachShape(star);
+    expect(character.getShapeDifficulty()).toBeGreaterThan(1);
+
+    reachShape(tuck);
+    expect(character.getShapeDifficulty()).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  calculateSkillDifficulty,
+  JudgePanel,
+} from '../../src/simulation/JudgePanel';
+import {
+  CharacterSimulation,
+  Trick,
+} from '../../src/simulation/CharacterSimulation';
+import { Simulation, SimulationInput } from '../../src/simulation/Simulation';
+import { getCanonicalShape } from '../../src/simulation/ShapeClassifier';
+import { LimbPositions } from '../../src/simulation/Pose';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const flip = (rotation: number, twist: number, shape: string): Trick => ({
+  type: 'flip',
+  rotation,
+  twist,
+  shape,
+  difficultyMultiplier: 1,
+});
+
+describe('JudgePanel', () => {
+  test('should rate difficulty from rotation and twist', () => {
+    expect(calculateSkillDifficulty(flip(360, 0, 'tuck'))).toBe(0.5);
+    expect(calculateSkillDifficulty(flip(360, 0, 'pike'))).toBe(0.6);
+    expect(calculateSkillDifficulty(flip(360, 180, 'straight'))).toBe(0.6);
+    expect(calculateSkillDifficulty(flip(720, 0, 'tuck'))).toBe(1);
+    expect(calculateSkillDifficulty(null)).toBe(0);
+  });
+
+  test('should not start the routine until a skill is performed', () => {
+    const panel = new JudgePanel();
+    const character = new CharacterSimulation();
+
+    expect(panel.judgeSkill(null, character, 1)).toBeNull();
+    const skill = panel.judgeSkill(flip(360, 0, 'tuck'), character, 2.5);
+
+    // Timed from the run-up bounce before it
+    expect(skill?.timeOfFlight).toBeCloseTo(1.5);
+    expect(panel.getSkillCount()).toBe(1);
+  });
+
+  test('should deduct more for a skill still spinning at touchdown', () => {
+    const still = new CharacterSimulation();
+    const spinning = new CharacterSimulation();
+    spinning.bounce(10);
+    for (let i = 0; i < 30; i++) {
+      spinning.step(FIXED_TIMESTEP, { x: 1, y: 0 }, 'straight');
+    }
+
+    const trick = flip(360, 0, 'straight');
+    const stillSkill = new JudgePanel().judgeSkill(trick, still, 1);
+    const spinningSkill = new JudgePanel().judgeSkill(trick, spinning, 1);
+
+    expect(spinningSkill?.deductions[2]).toBeGreaterThan(
+      stillSkill?.deductions[2] ?? Infinity
+    );
+  });
+
+  test('should deduct more for a held shape further from the ideal', () => {
+    // Hold a pose through a flight and score it as a piked flip
+    const judgeHeldShape = (pose: LimbPositions): number => {
+      const panel = new JudgePanel();
+      const character = new CharacterSimulation();
+      character.setCustomShape(pose);
+      character.bounce(10);
+      for (let i = 0; i < 60; i++) {
+        character.step(FIXED_TIMESTEP, { x: 0, y: 0 }, '');
+        panel.observe(character);
+      }
+      expect(character.getCurrentShape()).toBe('pike');
+      return panel.judgeSkill(flip(360, 0, 'pike'), character, 1)
+        ?.deductions[2] as number;
+    };
+
+    // Hands short of the toes and the legs bent
+    const sloppyPike = {
+      leftArmLegPath: [
+        { x: 0.4, y: 1.4 },
+        { x: 0.4, y: 0.9 },
+        { x: 0.3, y: -0.3 },
+        { x: 0.2, y: 0.5 },
+        { x: 0.25, y: 0.0 },
+        { x: 0.25, y: -0.6 },
+      ],
+      rightArmLegPath: [
+        { x: -0.4, y: 1.4 },
+        { x: -0.4, y: 0.9 },
+        { x: -0.3, y: -0.3 },
+        { x: -0.2, y: 0.5 },
+        { x: -0.25, y: 0.0 },
+        { x: -0.25, y: -0.6 },
+      ],
+    };
+
+    const clean = judgeHeldShape(getCanonicalShape('pike') as LimbPositions);
+    const sloppy = judgeHeldShape(sloppyPike);
+
+    expect(clean).toBe(0);
+    expect(sloppy).toBeGreaterThan(clean);
+  });
+
+  test('should drop the highest and lowest execution mark', () => {
+    const panel = new JudgePanel();
+    const character = new CharacterSimulation();
+    character.bounce(10);
+    for (let i = 0; i < 20; i++) {
+      character.step(FIXED_TIMESTEP, { x: 1, y: 0 }, 'straight');
+    }
+    panel.judgeSkill(flip(360, 0, 'tuck'), character, 1);
+    panel.judgeSkill(flip(720, 0, 'tuck'), character, 2);
+
+    const judgement = panel.finishRoutine();
+    if (!judgement) throw new Error('Routine was not judged');
+
+    const marks = [...judgement.executionByJudge].sort((a, b) => a - b);
+    expect(judgement.execution).toBeCloseTo(marks[1] + marks[2] + marks[3]);
+    expect(judgement.difficulty).toBeCloseTo(1.5);
+    expect(judgement.timeOfFlight).toBeCloseTo(1);
+    expect(judgement.total).toBeCloseTo(
+      judgement.execution + judgement.difficulty + judgement.timeOfFlight
+    );
+    expect(panel.finishRoutine()).toBeNull();
+  });
+
+  test('should end the routine on a kill', () => {
+    const simulation = new Simulation();
+    const idle: SimulationInput = { rotation: { x: 0, y: 0 }, shape: '' };
+    const spin: SimulationInput = { rotation: { x: 1, y: 0 }, shape: '' };
+    const counter: SimulationInput = { rotation: { x: -1, y: 0 }, shape: '' };
+
+    // Fall onto the mat once so the flip is timed from a contact
+    while (!simulation.step(FIXED_TIMESTEP, idle)) {
+      // Keep falling
+    }
+
+    // Flip, then hold the button through the landing
+    let judgement = null;
+    for (let i = 0; i < 600 && !judgement; i++) {
+      const input = i < 55 ? spin : i < 110 ? counter : idle;
+      simulation.step(FIXED_TIMESTEP, { ...input, pump: i >= 110 });
+      judgement = simulation.getRoutineJudgement();
+    }
+
+    expect(judgement?.skills).toHaveLength(1);
+    expect(judgement?.skills[0].trick?.type).toBe('flip');
+    expect(judgement?.timeOfFlight).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import {
+  applyLandingPosition,
+  classifyLandingPosition,
+  getTrickName,
+} from '../../src/simulation/LandingPosition';
+import {
+  createDefaultPose,
+  LimbPositions,
+  Point,
+} from '../../src/simulation/Pose';
+import { ScoreKeeper } from '../../src/simulation/ScoreKeeper';
+import { LandingEvent, Simulation } from '../../src/simulation/Simulation';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const mirrored = (left: Point[]): LimbPositions => ({
+  leftArmLegPath: left,
+  rightArmLegPath: left.map((p) => ({ x: -p.x, y: p.y })),
+});
+
+// Legs stretched out level with the hips
+const sitting = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: 0.6, y: 1.2 },
+  { x: 0.8, y: 1.0 },
+  { x: 0.2, y: 0.5 },
+  { x: 0.7, y: 0.5 },
+  { x: 1.2, y: 0.55 },
+]);
+
+// Knees down with the feet folded up behind
+const kneeling = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: 0.6, y: 1.2 },
+  { x: 0.8, y: 1.0 },
+  { x: 0.2, y: 0.5 },
+  { x: 0.25, y: 0.0 },
+  { x: 0.6, y: 0.3 },
+]);
+
+const tilted = (somersault: number, twist = 0): THREE.Euler =>
+  new THREE.Euler(0, twist, somersault, 'ZYX');
+
+describe('LandingPosition', () => {
+  test('should land upright on the feet in the straight pose', () => {
+    expect(classifyLandingPosition(tilted(0.2), createDefaultPose())).toBe(
+      'feet'
+    );
+    // Whole turns do not change the landing
+    expect(
+      classifyLandingPosition(tilted(Math.PI * 4), createDefaultPose())
+    ).toBe('feet');
+  });
+
+  test('should tell front and back drops apart, including after a half twist', () => {
+    const pose = createDefaultPose();
+    expect(classifyLandingPosition(tilted(Math.PI / 2), pose)).toBe('front');
+    expect(classifyLandingPosition(tilted(-Math.PI / 2), pose)).toBe('back');
+    expect(classifyLandingPosition(tilted(Math.PI / 2, Math.PI), pose)).toBe(
+      'back'
+    );
+  });
+
+  test('should land on the seat or knees depending on the pose', () => {
+    expect(classifyLandingPosition(tilted(0), sitting)).toBe('seat');
+    expect(classifyLandingPosition(tilted(0), kneeling)).toBe('knees');
+  });
+
+  test('should score a drop on its own and after a trick', () => {
+    const seatDrop = applyLandingPosition(null, 'seat', 'custom');
+    expect(seatDrop?.type).toBe('seat drop');
+
+    const halfTwist = {
+      type: 'half twist',
+      rotation: 0,
+      twist: 180,
+      difficultyMultiplier: 1,
+    };
+    const toSeat = applyLandingPosition(halfTwist, 'seat', 'custom');
+    expect(toSeat && getTrickName(toSeat)).toBe('half twist to seat drop');
+    expect(applyLandingPosition(halfTwist, 'feet', 'straight')).toBe(halfTwist);
+
+    const keeper = new ScoreKeeper();
+    expect(keeper.calculatePoints(toSeat!, 1, 0)).toBeGreaterThan(
+      new ScoreKeeper().calculatePoints(halfTwist, 1, 0)
+    );
+  });
+
+  test('should bounce lower from a seat drop than from the feet', () => {
+    const launch = (pose: LimbPositions | null): LandingEvent | null => {
+      const simulation = new Simulation();
+      for (let i = 0; i < 600; i++) {
+        const landing = simulation.step(FIXED_TIMESTEP, {
+          rotation: { x: 0, y: 0 },
+          shape: 'straight',
+          customShape: i === 0 ? pose : undefined,
+        });
+        if (landing) return landing;
+      }
+      return null;
+    };
+
+    const seat = launch(sitting);
+    const feet = launch(null);
+    expect(seat?.landingPosition).toBe('seat');
+    expect(seat?.trick?.type).toBe('seat drop');
+    expect(feet?.landingPosition).toBe('feet');
+    expect(seat!.bounceForce).toBeLessThan(feet!.bounceForce);
+  });
+});
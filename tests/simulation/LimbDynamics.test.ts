@@ -0,0 +1,89 @@
+import { LimbDynamics, LimbLoad } from '../../src/simulation/LimbDynamics';
+import {
+  createDefaultPose,
+  LimbPositions,
+  Point,
+} from '../../src/simulation/Pose';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const still: LimbLoad = {
+  force: { x: 0, y: 0 },
+  somersaultSpeed: 0,
+  twistSpeed: 0,
+};
+
+// Arms held straight out to the side
+const armsOut: LimbPositions = {
+  leftArmLegPath: [
+    { x: 0.4, y: 1.4 },
+    { x: 0.8, y: 1.4 },
+    { x: 1.2, y: 1.4 },
+    { x: 0.2, y: 0.5 },
+    { x: 0.2, y: 0.0 },
+    { x: 0.2, y: -0.6 },
+  ],
+  rightArmLegPath: [
+    { x: -0.4, y: 1.4 },
+    { x: -0.8, y: 1.4 },
+    { x: -1.2, y: 1.4 },
+    { x: -0.2, y: 0.5 },
+    { x: -0.2, y: 0.0 },
+    { x: -0.2, y: -0.6 },
+  ],
+};
+
+const hand = (dynamics: LimbDynamics): Point => {
+  const arm = dynamics.getPose().leftArm;
+  return arm[arm.length - 1];
+};
+
+describe('LimbDynamics', () => {
+  test('should hold the pose when nothing moves', () => {
+    const dynamics = new LimbDynamics(createDefaultPose());
+    for (let i = 0; i < 60; i++) {
+      dynamics.step(FIXED_TIMESTEP, still);
+    }
+
+    expect(hand(dynamics).x).toBeCloseTo(0.1);
+    expect(hand(dynamics).y).toBeCloseTo(2.0);
+  });
+
+  test('should lag behind a new shape, overshoot it and settle', () => {
+    const dynamics = new LimbDynamics(createDefaultPose());
+    dynamics.setTarget(armsOut);
+
+    // Still on the way out after one tick
+    dynamics.step(FIXED_TIMESTEP, still);
+    expect(hand(dynamics).x).toBeLessThan(0.5);
+
+    let furthest = 0;
+    for (let i = 0; i < 180; i++) {
+      dynamics.step(FIXED_TIMESTEP, still);
+      furthest = Math.max(furthest, hand(dynamics).x);
+    }
+
+    expect(furthest).toBeGreaterThan(1.2);
+    expect(hand(dynamics).x).toBeCloseTo(1.2);
+    expect(hand(dynamics).y).toBeCloseTo(1.4);
+  });
+
+  test('should fling the hands outward while twisting', () => {
+    const dynamics = new LimbDynamics(armsOut);
+    for (let i = 0; i < 60; i++) {
+      dynamics.step(FIXED_TIMESTEP, { ...still, twistSpeed: 8 });
+    }
+
+    expect(hand(dynamics).x).toBeGreaterThan(1.25);
+  });
+
+  test('should be thrown down by a landing and stay attached', () => {
+    const dynamics = new LimbDynamics(armsOut);
+    for (let i = 0; i < 10; i++) {
+      dynamics.step(FIXED_TIMESTEP, { ...still, force: { x: 0, y: -300 } });
+    }
+
+    const arm = dynamics.getPose().leftArm;
+    expect(hand(dynamics).y).toBeLessThan(1.3);
+    expect(arm[0]).toEqual({ x: 0.4, y: 1.4 });
+  });
+});
@@ -0,0 +1,77 @@
+import { Simulation, SimulationInput } from '../../src/simulation/Simulation';
+import { ReplayPlayer, ReplayRecorder } from '../../src/simulation/Replay';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+import { LimbPositions } from '../../src/simulation/Pose';
+import { DEFAULT_CHARACTER_STATS } from '../../src/simulation/CharacterStats';
+
+const customShape: LimbPositions = {
+  leftArmLegPath: [
+    { x: 0.4, y: 1.4 },
+    { x: 0.8, y: 1.2 },
+    { x: 0.2, y: 0.5 },
+    { x: 0.6, y: 0.2 },
+  ],
+  rightArmLegPath: [
+    { x: -0.4, y: 1.4 },
+    { x: -0.8, y: 1.2 },
+    { x: -0.2, y: 0.5 },
+    { x: -0.6, y: 0.2 },
+  ],
+};
+
+describe('Replay', () => {
+  test('should reproduce a recorded run exactly', () => {
+    const stats = { shapeMastery: 1.5, airControl: 1.2 };
+    const live = new Simulation(stats);
+    const recorder = new ReplayRecorder(FIXED_TIMESTEP, stats);
+
+    for (let i = 0; i < 1200; i++) {
+      const input: SimulationInput = {
+        rotation: { x: Math.sin(i / 37), y: Math.cos(i / 53) },
+        shape: 'straight',
+      };
+      if (i === 200) input.customShape = customShape;
+      if (i === 700) input.customShape = null;
+      if (i % 90 < 20) input.pump = true;
+
+      recorder.record(input);
+      live.step(FIXED_TIMESTEP, input);
+    }
+
+    const replay = recorder.getReplay();
+    const playback = new Simulation(replay.stats);
+    const player = new ReplayPlayer(replay);
+    let input = player.next();
+    while (input) {
+      playback.step(player.getStep(), input);
+      input = player.next();
+    }
+
+    expect(player.isFinished()).toBe(true);
+    expect(playback.getTickCount()).toBe(live.getTickCount());
+    expect(playback.character.getPosition()).toEqual(
+      live.character.getPosition()
+    );
+    expect(playback.character.getRotation().z).toBe(
+      live.character.getRotation().z
+    );
+    expect(playback.scoreKeeper.getScore()).toBe(live.scoreKeeper.getScore());
+  });
+
+  test('should copy inputs so later mutation does not change the recording', () => {
+    const recorder = new ReplayRecorder(
+      FIXED_TIMESTEP,
+      DEFAULT_CHARACTER_STATS
+    );
+    const rotation = { x: 1, y: 0 };
+    const shape: LimbPositions = JSON.parse(JSON.stringify(customShape));
+
+    recorder.record({ rotation, shape: 'straight', customShape: shape });
+    rotation.x = 0;
+    shape.leftArmLegPath[1].x = 5;
+
+    const frame = recorder.getReplay().frames[0];
+    expect(frame.rotation.x).toBe(1);
+    expect(frame.customShape?.leftArmLegPath[1].x).toBe(0.8);
+  });
+});
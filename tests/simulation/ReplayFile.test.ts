@@ -0,0 +1,187 @@
+import { PHYSICS_CONSTANTS } from '../../src/game/Physics';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+import { Replay } from '../../src/simulation/Replay';
+import {
+  parseReplay,
+  ReplayFormatError,
+  serializeReplay,
+  REPLAY_FORMAT_VERSION,
+} from '../../src/simulation/ReplayFile';
+import {
+  COMPETITION_TRAMPOLINE,
+  ROUND_BACKYARD_TRAMPOLINE,
+} from '../../src/simulation/TrampolineSpec';
+
+const replay: Replay = {
+  step: FIXED_TIMESTEP,
+  stats: { shapeMastery: 2, airControl: 0.5 },
+  frames: [
+    { rotation: { x: 0.1, y: -0.3 }, shape: 'straight' },
+    {
+      rotation: { x: 1 / 3, y: 0 },
+      shape: 'straight',
+      customShape: {
+        leftArmLegPath: [{ x: 0.4, y: 1.4 }],
+        rightArmLegPath: [{ x: -0.4, y: 1.4 }],
+      },
+    },
+    { rotation: { x: 0, y: 0 }, shape: 'straight', customShape: null },
+    { rotation: { x: 0, y: 1 }, shape: 'straight' },
+    { rotation: { x: 0, y: 0 }, shape: 'straight', pump: true },
+  ],
+};
+
+const expected = {
+  step: FIXED_TIMESTEP,
+  trampoline: ROUND_BACKYARD_TRAMPOLINE,
+};
+
+describe('ReplayFile', () => {
+  test('should round-trip a replay exactly', () => {
+    const text = serializeReplay(replay, {
+      trampoline: ROUND_BACKYARD_TRAMPOLINE,
+      finalScore: 420,
+    });
+    const { header, replay: loaded } = parseReplay(text, expected);
+
+    expect(loaded).toEqual(replay);
+    expect(header.finalScore).toBe(420);
+    expect(header.tickCount).toBe(5);
+    expect(header.physics).toEqual(PHYSICS_CONSTANTS);
+  });
+
+  test('should reject files recorded with different physics', () => {
+    const file = JSON.parse(
+      serializeReplay(replay, {
+        trampoline: ROUND_BACKYARD_TRAMPOLINE,
+        finalScore: 0,
+      })
+    );
+    file.header.physics.gravity = 1.6;
+
+    expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+      /different physics.*gravity 1\.6 \(expected 9\.8\)/
+    );
+  });
+
+  test('should reject unsupported versions and foreign files', () => {
+    const file = JSON.parse(
+      serializeReplay(replay, {
+        trampoline: ROUND_BACKYARD_TRAMPOLINE,
+        finalScore: 0,
+      })
+    );
+    file.formatVersion = REPLAY_FORMAT_VERSION + 1;
+
+    expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+      ReplayFormatError
+    );
+    expect(() => parseReplay('{"hello": 1}', expected)).toThrow(
+      'File is not a Bounce Trick replay'
+    );
+    expect(() => parseReplay('not json', expected)).toThrow(ReplayFormatError);
+  });
+
+  test('should reject a different trampoline', () => {
+    const text = serializeReplay(replay, {
+      trampoline: COMPETITION_TRAMPOLINE,
+      finalScore: 0,
+    });
+
+    expect(() => parseReplay(text, expected)).toThrow(/FIG competition/);
+  });
+
+  test('should reject a malformed input entry', () => {
+    const file = JSON.parse(
+      serializeReplay(replay, {
+        trampoline: ROUND_BACKYARD_TRAMPOLINE,
+        finalScore: 0,
+      })
+    );
+    const malformed = [
+      { shape: 'straight' },
+      { rotation: [0, 'left'], shape: 'straight' },
+      { rotation: [0, 0] },
+      { rotation: [0, 0], shape: 'straight', pump: 'yes' },
+      null,
+    ];
+
+    for (const input of malformed) {
+      file.body.inputs[3] = input;
+      expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+        'Replay input at tick 3 is malformed'
+      );
+    }
+  });
+
+  test('should reject a malformed custom shape entry', () => {
+    const file = JSON.parse(
+      serializeReplay(replay, {
+        trampoline: ROUND_BACKYARD_TRAMPOLINE,
+        finalScore: 0,
+      })
+    );
+    const limbPositions = file.body.customShapes[0].limbPositions;
+    const malformed = [
+      { tick: -1, limbPositions },
+      { tick: 1.5, limbPositions },
+      { tick: '1', limbPositions },
+      { tick: 1, limbPositions: { foo: 1 } },
+      { tick: 1, limbPositions: { ...limbPositions, leftArmLegPath: [1] } },
+      {
+        tick: 1,
+        limbPositions: {
+          ...limbPositions,
+          rightArmLegPath: [{ x: 0, y: null }],
+        },
+      },
+    ];
+
+    for (const shape of malformed) {
+      file.body.customShapes[0] = shape;
+      expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+        'Replay custom shape 0 is malformed'
+      );
+    }
+
+    file.body.customShapes[0] = { tick: 5, limbPositions };
+    expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+      ReplayFormatError
+    );
+  });
+
+  test('should reject stats a character cannot have', () => {
+    const file = JSON.parse(
+      serializeReplay(replay, {
+        trampoline: ROUND_BACKYARD_TRAMPOLINE,
+        finalScore: 0,
+      })
+    );
+
+    for (const stats of [
+      { shapeMastery: 0, airControl: 1 },
+      { shapeMastery: 1, airControl: 'x' },
+      { shapeMastery: -1, airControl: 1 },
+      { shapeMastery: 1, airControl: null },
+    ]) {
+      file.header.stats = stats;
+      expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+        /must be a positive number/
+      );
+    }
+  });
+
+  test('should reject stats without air control', () => {
+    const file = JSON.parse(
+      serializeReplay(replay, {
+        trampoline: ROUND_BACKYARD_TRAMPOLINE,
+        finalScore: 0,
+      })
+    );
+    file.header.stats = { shapeMastery: 1 };
+
+    expect(() => parseReplay(JSON.stringify(file), expected)).toThrow(
+      'Replay stats are missing airControl'
+    );
+  });
+});
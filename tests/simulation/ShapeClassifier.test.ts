@@ -0,0 +1,70 @@
+import {
+  classifyShape,
+  getCanonicalShape,
+} from '../../src/simulation/ShapeClassifier';
+import { CharacterSimulation } from '../../src/simulation/CharacterSimulation';
+import { LimbPositions, Point } from '../../src/simulation/Pose';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const mirrored = (left: Point[]): LimbPositions => ({
+  leftArmLegPath: left,
+  rightArmLegPath: left.map((p) => ({ x: -p.x, y: p.y })),
+});
+
+// A pike as a player might draw it, hands short of the toes
+const drawnPike = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: 0.4, y: 0.9 },
+  { x: 0.3, y: -0.3 },
+  { x: 0.2, y: 0.5 },
+  { x: 0.25, y: 0.0 },
+  { x: 0.25, y: -0.6 },
+]);
+
+// One arm flung overhead and the legs kicked off to one side
+const scribble = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: -0.5, y: 2.5 },
+  { x: 0.2, y: 0.5 },
+  { x: -1.5, y: 1.5 },
+  { x: -2.0, y: 2.2 },
+]);
+
+describe('ShapeClassifier', () => {
+  test('should recognise each canonical shape with full confidence', () => {
+    for (const name of ['straight', 'tuck', 'pike', 'straddle', 'star']) {
+      const classification = classifyShape(
+        getCanonicalShape(name) as LimbPositions
+      );
+      expect(classification.shape).toBe(name);
+      expect(classification.confidence).toBe(1);
+    }
+  });
+
+  test('should recognise a rough drawing of a shape', () => {
+    const classification = classifyShape(drawnPike);
+
+    expect(classification.shape).toBe('pike');
+    expect(classification.confidence).toBeGreaterThan(0.5);
+    expect(classification.confidence).toBeLessThan(1);
+  });
+
+  test('should leave a novel drawing custom', () => {
+    const classification = classifyShape(scribble);
+
+    expect(classification.shape).toBe('custom');
+    expect(classification.confidence).toBeLessThan(0.5);
+  });
+
+  test('should award a pike flip for a drawn pike', () => {
+    const character = new CharacterSimulation();
+    character.setCustomShape(drawnPike);
+    character.bounce(20);
+    for (let i = 0; i < 300; i++) {
+      if (Math.abs(character.getNetSomersault()) >= Math.PI * 2) break;
+      character.step(FIXED_TIMESTEP, { x: -1, y: 0 }, '');
+    }
+
+    expect(character.getCurrentTrick()?.type).toBe('pike flip');
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  calculateShapeDistance,
+  ShapeHistory,
+} from '../../src/simulation/ShapeSimilarity';
+import {
+  createDefaultPose,
+  LimbPositions,
+  Point,
+} from '../../src/simulation/Pose';
+import { ScoreKeeper } from '../../src/simulation/ScoreKeeper';
+import { Trick } from '../../src/simulation/CharacterSimulation';
+
+/**
+ * Default pose with the feet moved out sideways by the given amount
+ */
+const spreadFeet = (amount: number): LimbPositions => {
+  const pose = createDefaultPose();
+  const spread = (path: Point[], sign: number): Point[] =>
+    path.map((p, i) =>
+      i === path.length - 1 ? { x: p.x + sign * amount, y: p.y } : p
+    );
+  return {
+    leftArmLegPath: spread(pose.leftArmLegPath, 1),
+    rightArmLegPath: spread(pose.rightArmLegPath, -1),
+  };
+};
+
+const customFlip = (
+  limbPositions: LimbPositions,
+  type = 'custom flip'
+): Trick => ({
+  type,
+  rotation: 360,
+  shape: 'custom',
+  difficultyMultiplier: 1,
+  limbPositions,
+});
+
+describe('ShapeSimilarity', () => {
+  test('should measure no distance between a shape and itself', () => {
+    expect(calculateShapeDistance(spreadFeet(1), spreadFeet(1))).toBe(0);
+  });
+
+  test('should compare shapes drawn with different numbers of points', () => {
+    const pose = createDefaultPose();
+    const denser = {
+      leftArmLegPath: pose.leftArmLegPath.flatMap((p, i, path) =>
+        i === 0 || i === 3
+          ? [p]
+          : [
+              {
+                x: (p.x + path[i - 1].x) / 2,
+                y: (p.y + path[i - 1].y) / 2,
+              },
+              p,
+            ]
+      ),
+      rightArmLegPath: pose.rightArmLegPath,
+    };
+
+    expect(calculateShapeDistance(pose, denser)).toBeCloseTo(0);
+  });
+
+  test('should rate shapes as newer the further they are from history', () => {
+    const history = new ShapeHistory();
+    expect(history.measureNovelty(spreadFeet(0))).toBe(1);
+    history.add(spreadFeet(0));
+
+    const nearCopy = history.measureNovelty(spreadFeet(0.05));
+    const variation = history.measureNovelty(spreadFeet(1));
+    const different = history.measureNovelty(spreadFeet(4));
+
+    expect(nearCopy).toBe(0);
+    expect(variation).toBeGreaterThan(nearCopy);
+    expect(different).toBeGreaterThan(variation);
+  });
+
+  test('should fade the novelty bonus for repeated custom shapes', () => {
+    const keeper = new ScoreKeeper();
+    const score = (shape: LimbPositions, minute: number): number =>
+      keeper.calculatePoints(customFlip(shape), 1, minute * 60);
+
+    const first = score(spreadFeet(1), 1);
+    const repeat = score(spreadFeet(1), 2);
+    const different = score(spreadFeet(4), 3);
+
+    expect(first).toBeGreaterThan(repeat);
+    expect(different).toBeGreaterThan(repeat);
+  });
+
+  test('should not reward the same drawing again on a different skill', () => {
+    const keeper = new ScoreKeeper();
+    const flip = keeper.calculatePoints(customFlip(spreadFeet(1)), 1, 60);
+    const firstDouble = new ScoreKeeper().calculatePoints(
+      customFlip(spreadFeet(1), 'double flip'),
+      1,
+      60
+    );
+    const double = keeper.calculatePoints(
+      customFlip(spreadFeet(1), 'double flip'),
+      1,
+      120
+    );
+
+    expect(flip).toBeGreaterThan(0);
+    expect(double).toBeLessThan(firstDouble);
+  });
+});
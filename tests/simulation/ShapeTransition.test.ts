@@ -0,0 +1,97 @@
+import {
+  CharacterSimulation,
+  Trick,
+} from '../../src/simulation/CharacterSimulation';
+import { LimbPositions, Point } from '../../src/simulation/Pose';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+import { PHYSICS_CONSTANTS } from '../../src/game/Physics';
+import { DEFAULT_CHARACTER_STATS } from '../../src/simulation/CharacterStats';
+
+const mirrored = (left: Point[]): LimbPositions => ({
+  leftArmLegPath: left,
+  rightArmLegPath: left.map((p) => ({ x: -p.x, y: p.y })),
+});
+
+// Arms and legs spread wide
+const star = mirrored([
+  { x: 0.4, y: 1.4 },
+  { x: 0.8, y: 1.8 },
+  { x: 1.1, y: 2.1 },
+  { x: 0.2, y: 0.5 },
+  { x: 0.6, y: 0.0 },
+  { x: 0.9, y: -0.5 },
+]);
+
+const idle = { x: 0, y: 0 };
+
+describe('Shape transitions', () => {
+  test('should blend into a new shape over the transition time', () => {
+    const character = new CharacterSimulation();
+    character.setCustomShape(star);
+
+    const ticks = Math.ceil(
+      PHYSICS_CONSTANTS.shapeTransitionTime / FIXED_TIMESTEP - 1e-9
+    );
+    for (let i = 0; i < ticks - 1; i++) {
+      character.step(FIXED_TIMESTEP, idle, 'custom');
+    }
+
+    // Most of the way there but not yet in the shape
+    expect(character.getShapeTransitionProgress()).toBeGreaterThan(0.9);
+    expect(character.getCurrentShape()).toBe('straight');
+    const hand = character.getCustomLimbPositions()!.leftArmLegPath[7];
+    expect(hand.x).toBeGreaterThan(0.1);
+    expect(hand.x).toBeLessThan(1.1);
+
+    character.step(FIXED_TIMESTEP, idle, 'custom');
+    expect(character.getShapeTransitionProgress()).toBeNull();
+    expect(character.getCurrentShape()).toBe('star');
+    expect(character.getCustomLimbPositions()).toBe(star);
+  });
+
+  test('should change shape faster with more shape mastery', () => {
+    const novice = new CharacterSimulation();
+    const master = new CharacterSimulation({
+      ...DEFAULT_CHARACTER_STATS,
+      shapeMastery: 3,
+    });
+    novice.setCustomShape(star);
+    master.setCustomShape(star);
+
+    for (let i = 0; i < 6; i++) {
+      novice.step(FIXED_TIMESTEP, idle, 'custom');
+      master.step(FIXED_TIMESTEP, idle, 'custom');
+    }
+
+    expect(novice.getShapeTransitionProgress()).toBeCloseTo(1 / 3);
+    expect(master.getShapeTransitionProgress()).toBeNull();
+  });
+
+  test('should only credit a shape once it has been reached', () => {
+    // Open out into a star just before the flip comes round
+    const flipIntoStar = (shapeMastery: number): Trick | null => {
+      const character = new CharacterSimulation({
+        ...DEFAULT_CHARACTER_STATS,
+        shapeMastery,
+      });
+      character.bounce(15);
+
+      // The trick is settled the moment the somersault comes round
+      for (let i = 0; i < 120; i++) {
+        if (i === 62) character.setCustomShape(star);
+        character.step(FIXED_TIMESTEP, { x: 1, y: 0 }, '');
+        if (character.getCurrentTrick()?.rotation === 360) break;
+      }
+      return character.getCurrentTrick();
+    };
+
+    const late = flipIntoStar(1);
+    expect(late?.type).toBe('flip');
+    expect(late?.shape).toBe('straight');
+    expect(late?.difficultyMultiplier).toBe(1);
+
+    const reached = flipIntoStar(4);
+    expect(reached?.shape).toBe('star');
+    expect(reached?.difficultyMultiplier).toBeGreaterThan(1);
+  });
+});
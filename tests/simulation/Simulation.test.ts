@@ -0,0 +1,267 @@
+import { Simulation, SimulationInput } from '../../src/simulation/Simulation';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+import { PHYSICS_CONSTANTS } from '../../src/game/Physics';
+
+const idle: SimulationInput = { rotation: { x: 0, y: 0 }, shape: 'straight' };
+
+describe('Simulation', () => {
+  let simulation: Simulation;
+
+  beforeEach(() => {
+    simulation = new Simulation();
+  });
+
+  test('should run without a DOM or WebGL context', () => {
+    expect(typeof document).toBe('undefined');
+    simulation.step(FIXED_TIMESTEP, idle);
+    expect(simulation.getTickCount()).toBe(1);
+  });
+
+  test('should bounce the character off the mat', () => {
+    let landing = null;
+    let contactTicks = 0;
+    let maxCompression = 0;
+    for (let i = 0; i < 600 && !landing; i++) {
+      landing = simulation.step(FIXED_TIMESTEP, idle);
+      if (simulation.trampoline.hasJumper()) {
+        contactTicks++;
+        maxCompression = Math.max(
+          maxCompression,
+          simulation.trampoline.getCompression()
+        );
+      }
+    }
+
+    expect(landing).not.toBeNull();
+    expect(simulation.character.getVelocity().y).toBeGreaterThan(0);
+    expect(maxCompression).toBeGreaterThan(0);
+    expect(contactTicks).toBeGreaterThan(3);
+  });
+
+  test('should sink the character into the mat while in contact', () => {
+    while (!simulation.trampoline.hasJumper()) {
+      simulation.step(FIXED_TIMESTEP, idle);
+    }
+    for (let i = 0; i < 3; i++) {
+      simulation.step(FIXED_TIMESTEP, idle);
+    }
+
+    // The feet rest on the sunken mat surface
+    const feetHeight =
+      simulation.character.getPosition().y +
+      simulation.character.getLowestContact().y;
+    expect(simulation.character.isOnMat()).toBe(true);
+    expect(feetHeight).toBeCloseTo(simulation.trampoline.getSurfaceHeight());
+    expect(feetHeight).toBeLessThan(0);
+  });
+
+  test('should bounce higher from a deeper landing', () => {
+    const launchFrom = (height: number): number => {
+      const other = new Simulation();
+      other.character.rideMat(height, 0);
+      other.character.bounce(0);
+      for (let i = 0; i < 600; i++) {
+        const landing = other.step(FIXED_TIMESTEP, idle);
+        if (landing) return landing.bounceForce;
+      }
+      return 0;
+    };
+
+    expect(launchFrom(6)).toBeGreaterThan(launchFrom(2));
+  });
+
+  test('should detect and score a flip', () => {
+    const spin: SimulationInput = { rotation: { x: 1, y: 0 }, shape: '' };
+    const counter: SimulationInput = { rotation: { x: -1, y: 0 }, shape: '' };
+
+    // Fall onto the mat once so the next jump starts from a bounce
+    while (!simulation.step(FIXED_TIMESTEP, idle)) {
+      // Keep falling
+    }
+
+    // Spin up, then brake to a stop just past one turn
+    let landing = null;
+    for (let i = 0; i < 600 && !landing; i++) {
+      const input = i < 55 ? spin : i < 110 ? counter : idle;
+      landing = simulation.step(FIXED_TIMESTEP, input);
+    }
+
+    expect(landing?.trick?.type).toBe('flip');
+    expect(landing?.points).toBeGreaterThan(0);
+    expect(simulation.scoreKeeper.getScore()).toBe(landing?.points);
+  });
+
+  test('should produce identical results for identical inputs', () => {
+    const other = new Simulation();
+    for (let i = 0; i < 300; i++) {
+      const input: SimulationInput = {
+        rotation: { x: Math.sin(i / 20), y: 0 },
+        shape: 'straight',
+      };
+      simulation.step(FIXED_TIMESTEP, input);
+      other.step(FIXED_TIMESTEP, input);
+    }
+
+    expect(other.character.getPosition()).toEqual(
+      simulation.character.getPosition()
+    );
+    expect(other.character.getRotation().z).toBe(
+      simulation.character.getRotation().z
+    );
+  });
+
+  test('should bounce higher after a pump at the bottom of the bounce', () => {
+    const launchWith = (pumpAtBottom: boolean): number => {
+      const other = new Simulation();
+      let pump = false;
+      for (let i = 0; i < 600; i++) {
+        const landing = other.step(FIXED_TIMESTEP, { ...idle, pump });
+        if (landing) return landing.bounceForce;
+        pump = pumpAtBottom && other.trampoline.hasReachedBottom();
+      }
+      return 0;
+    };
+
+    expect(launchWith(true)).toBeGreaterThan(launchWith(false));
+  });
+
+  test('should report pump timing relative to the bottom', () => {
+    let timing = null;
+    let pump = false;
+    for (let i = 0; i < 600 && !timing; i++) {
+      simulation.step(FIXED_TIMESTEP, { ...idle, pump });
+      timing = simulation.getBounceTiming();
+      // Press as soon as the character lands, well before the bottom
+      pump = simulation.trampoline.hasJumper();
+    }
+
+    expect(timing?.kind).toBe('pump');
+    expect(timing?.offset).toBeLessThan(0);
+    expect(timing?.accuracy).toBeLessThan(1);
+  });
+
+  test('should stop dead on a kill and jump again on a pump', () => {
+    const kill: SimulationInput = { ...idle, pump: true };
+    let timing = null;
+    for (let i = 0; i < 600; i++) {
+      const landing = simulation.step(FIXED_TIMESTEP, kill);
+      timing = simulation.getBounceTiming() || timing;
+      // Held through the first touchdown, so no take-off may follow
+      if (timing) expect(landing).toBeNull();
+    }
+
+    expect(timing?.kind).toBe('kill');
+    // Held since long before touchdown
+    expect(timing?.accuracy).toBe(0);
+    expect(simulation.character.isOnMat()).toBe(true);
+    expect(Math.abs(simulation.character.getVelocity().y)).toBeLessThan(0.01);
+
+    // Letting go leaves the character standing on the settled mat
+    for (let i = 0; i < 120; i++) {
+      expect(simulation.step(FIXED_TIMESTEP, idle)).toBeNull();
+    }
+    expect(simulation.getState()).toBe('matContact');
+
+    // A single press jumps straight back up
+    const landing = simulation.step(FIXED_TIMESTEP, kill);
+    expect(landing?.bounceForce).toBe(PHYSICS_CONSTANTS.reentryBounce);
+    expect(simulation.getState()).toBe('airborne');
+  });
+
+  test('should report kill timing relative to touchdown', () => {
+    // Find the tick the character first touches the mat
+    const probe = new Simulation();
+    let touchdownTick = 0;
+    while (!probe.trampoline.hasJumper()) {
+      probe.step(FIXED_TIMESTEP, idle);
+      touchdownTick++;
+    }
+
+    // Press the tick before and hold through touchdown
+    let timing = null;
+    for (let i = 1; i <= touchdownTick && !timing; i++) {
+      simulation.step(FIXED_TIMESTEP, {
+        ...idle,
+        pump: i >= touchdownTick - 1,
+      });
+      timing = simulation.getBounceTiming();
+    }
+
+    expect(timing?.kind).toBe('kill');
+    expect(timing?.offset).toBeCloseTo(-FIXED_TIMESTEP);
+    expect(timing?.accuracy).toBeGreaterThan(0.75);
+  });
+
+  test('should drift sideways after a leaning landing', () => {
+    // Land tilted a little way through a somersault
+    let landing = null;
+    for (let i = 0; i < 600 && !landing; i++) {
+      const rotation = { x: i < 10 ? 1 : 0, y: 0 };
+      landing = simulation.step(FIXED_TIMESTEP, { ...idle, rotation });
+    }
+
+    expect(simulation.character.getRotation().z).toBeGreaterThan(0);
+    expect(simulation.character.getVelocity().x).toBeLessThan(0);
+  });
+
+  test('should bail on missing the mat and climb back on', () => {
+    simulation.scoreKeeper.addPoints(250);
+
+    // Leave the mat with a sideways throw that carries past its edge
+    simulation.character.bounce(8);
+    simulation.character.setHorizontalVelocity(3, 0);
+
+    let crash = null;
+    for (let i = 0; i < 600 && !crash; i++) {
+      simulation.step(FIXED_TIMESTEP, idle);
+      crash = simulation.getCrash();
+    }
+
+    expect(crash).toEqual({ kind: 'bail', penalty: 100 });
+    expect(simulation.scoreKeeper.getScore()).toBe(150);
+    expect(simulation.getState()).toBe('crashed');
+    expect(simulation.character.getPosition().y).toBeLessThan(0);
+
+    for (let i = 0; i < 600 && simulation.getState() === 'crashed'; i++) {
+      simulation.step(FIXED_TIMESTEP, idle);
+    }
+
+    // Back on the middle of the mat
+    expect(simulation.getState()).toBe('recovering');
+    expect(simulation.character.getPosition().x).toBe(0);
+    expect(simulation.trampoline.hasJumper()).toBe(true);
+  });
+
+  test('should crash on a head first landing and bounce back in', () => {
+    // Half a somersault on the way down lands upside down
+    const flip: SimulationInput = {
+      rotation: { x: 0.68, y: 0 },
+      shape: 'straight',
+    };
+    while (simulation.getState() === 'airborne') {
+      simulation.step(FIXED_TIMESTEP, flip);
+    }
+
+    expect(simulation.getState()).toBe('crashed');
+    expect(simulation.getCrash()).toEqual({ kind: 'crash', penalty: 0 });
+    expect(simulation.scoreKeeper.getChain()).toBeNull();
+
+    // Lie still on the mat without being thrown off it, then get up
+    const states: string[] = [];
+    let landing = null;
+    for (let i = 0; i < 600 && simulation.getState() !== 'airborne'; i++) {
+      landing = landing || simulation.step(FIXED_TIMESTEP, idle);
+      if (states[states.length - 1] !== simulation.getState()) {
+        states.push(simulation.getState());
+      }
+    }
+
+    expect(landing).toBeNull();
+    expect(states).toEqual(['crashed', 'recovering', 'standing', 'airborne']);
+    expect(simulation.character.getRotation().z).toBe(0);
+    expect(simulation.character.getVelocity().y).toBeCloseTo(
+      PHYSICS_CONSTANTS.reentryBounce -
+        PHYSICS_CONSTANTS.gravity * FIXED_TIMESTEP
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { CharacterSimulation } from '../../src/simulation/CharacterSimulation';
+import { getTrickName } from '../../src/simulation/LandingPosition';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+/**
+ * Spin one way until the body has turned the given number of somersaults,
+ * positive for front somersaults
+ */
+const spin = (character: CharacterSimulation, somersaults: number): void => {
+  const direction = Math.sign(somersaults);
+  const target = Math.abs(somersaults) * Math.PI * 2;
+  for (let i = 0; i < 600; i++) {
+    if (Math.abs(character.getNetSomersault()) >= target) return;
+    character.step(FIXED_TIMESTEP, { x: direction, y: 0 }, 'straight');
+  }
+};
+
+describe('Somersaults', () => {
+  test('should award a double front somersault', () => {
+    const character = new CharacterSimulation();
+    character.bounce(20);
+    spin(character, 2);
+
+    const trick = character.getCurrentTrick();
+    expect(trick?.type).toBe('double flip');
+    expect(trick?.rotation).toBe(720);
+    expect(trick?.direction).toBe('front');
+  });
+
+  test('should award a triple back somersault', () => {
+    const character = new CharacterSimulation();
+    character.bounce(20);
+    spin(character, -3);
+
+    const trick = character.getCurrentTrick();
+    expect(trick?.type).toBe('triple flip');
+    expect(trick && getTrickName(trick)).toBe('back triple flip');
+  });
+
+  test('should count nothing for rocking back and forth', () => {
+    const character = new CharacterSimulation();
+    character.bounce(30);
+
+    // Each swing turns about 50 degrees each way, well over a full
+    // somersault of rotation in total
+    for (let swing = 0; swing < 4; swing++) {
+      for (let i = 0; i < 80; i++) {
+        const x = i < 20 || i >= 60 ? 1 : -1;
+        character.step(FIXED_TIMESTEP, { x, y: 0 }, 'straight');
+      }
+    }
+
+    expect(Math.abs(character.getNetSomersault())).toBeLessThan(0.1);
+    expect(character.getCurrentTrick()).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { Simulation, SimulationInput } from '../../src/simulation/Simulation';
+import {
+  predictTrajectory,
+  TrajectoryPredictor,
+} from '../../src/simulation/TrajectoryPrediction';
+import { LimbPositions } from '../../src/simulation/Pose';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+const idle: SimulationInput = { rotation: { x: 0, y: 0 }, shape: 'straight' };
+
+// Knees pulled up to the chest
+const tucked: LimbPositions = {
+  leftArmLegPath: [
+    { x: 0.4, y: 1.4 },
+    { x: 0.5, y: 1.1 },
+    { x: 0.4, y: 0.9 },
+    { x: 0.2, y: 0.5 },
+    { x: 0.3, y: 1.0 },
+    { x: 0.25, y: 0.4 },
+  ],
+  rightArmLegPath: [
+    { x: -0.4, y: 1.4 },
+    { x: -0.5, y: 1.1 },
+    { x: -0.4, y: 0.9 },
+    { x: -0.2, y: 0.5 },
+    { x: -0.3, y: 1.0 },
+    { x: -0.25, y: 0.4 },
+  ],
+};
+
+/**
+ * Drop onto the mat and ride it back up into the air
+ */
+const launch = (simulation: Simulation): void => {
+  for (let i = 0; i < 600; i++) {
+    if (simulation.step(FIXED_TIMESTEP, idle)) return;
+  }
+};
+
+describe('TrajectoryPrediction', () => {
+  test('should match the simulation tick for tick once input stops', () => {
+    const simulation = new Simulation();
+    launch(simulation);
+
+    // Spin up and start changing shape, then let go part way through
+    for (let i = 0; i < 8; i++) {
+      simulation.step(FIXED_TIMESTEP, {
+        rotation: { x: 1, y: 0.5 },
+        shape: 'straight',
+        customShape: i === 0 ? tucked : undefined,
+      });
+    }
+    expect(simulation.character.getShapeTransitionProgress()).not.toBeNull();
+
+    const prediction = predictTrajectory(simulation, FIXED_TIMESTEP);
+    const touchdown = prediction?.touchdown;
+    if (!prediction || !touchdown) throw new Error('No touchdown predicted');
+
+    for (let tick = 1; tick < touchdown.ticks; tick++) {
+      simulation.step(FIXED_TIMESTEP, idle);
+      expect(simulation.getState()).toBe('airborne');
+      expect(simulation.character.getPosition()).toEqual(prediction.path[tick]);
+    }
+
+    simulation.step(FIXED_TIMESTEP, idle);
+    expect(simulation.getState()).not.toBe('airborne');
+    expect(simulation.character.getRotation()).toEqual(touchdown.rotation);
+    expect(touchdown.onBed).toBe(true);
+  });
+
+  test('should leave the real simulation untouched', () => {
+    const simulation = new Simulation();
+    const twin = new Simulation();
+    launch(simulation);
+    launch(twin);
+
+    predictTrajectory(simulation, FIXED_TIMESTEP);
+    for (let i = 0; i < 30; i++) {
+      simulation.step(FIXED_TIMESTEP, idle);
+      twin.step(FIXED_TIMESTEP, idle);
+    }
+
+    expect(simulation.character.getPosition()).toEqual(
+      twin.character.getPosition()
+    );
+    expect(simulation.character.getLimbPose()).toEqual(
+      twin.character.getLimbPose()
+    );
+  });
+
+  test('should warn of a jump that misses the mat', () => {
+    const simulation = new Simulation();
+    launch(simulation);
+    simulation.character.setHorizontalVelocity(4, 0);
+
+    const touchdown = predictTrajectory(simulation, FIXED_TIMESTEP)?.touchdown;
+    expect(touchdown?.onBed).toBe(false);
+  });
+
+  test('should predict nothing while on the mat', () => {
+    const simulation = new Simulation();
+    while (!simulation.trampoline.hasJumper()) {
+      simulation.step(FIXED_TIMESTEP, idle);
+    }
+
+    expect(predictTrajectory(simulation, FIXED_TIMESTEP)).toBeNull();
+  });
+
+  test('should only work the prediction out again after input', () => {
+    const simulation = new Simulation();
+    launch(simulation);
+    const predictor = new TrajectoryPredictor();
+    const clone = jest.spyOn(simulation.character, 'clone');
+
+    // Frames between ticks reuse the prediction
+    const first = predictor.predict(simulation, FIXED_TIMESTEP);
+    expect(predictor.predict(simulation, FIXED_TIMESTEP)).toBe(first);
+    expect(clone).toHaveBeenCalledTimes(1);
+
+    // A tick with no input follows the prediction
+    simulation.step(FIXED_TIMESTEP, idle);
+    predictor.observeInput(idle);
+    const next = predictor.predict(simulation, FIXED_TIMESTEP);
+    expect(clone).toHaveBeenCalledTimes(1);
+    expect(next?.touchdown?.ticks).toBe((first?.touchdown?.ticks ?? 0) - 1);
+    expect(next?.path[0]).toEqual(simulation.character.getPosition());
+
+    // Steering changes the flight
+    const steer = { ...idle, rotation: { x: 1, y: 0 } };
+    simulation.step(FIXED_TIMESTEP, steer);
+    predictor.observeInput(steer);
+    predictor.predict(simulation, FIXED_TIMESTEP);
+    expect(clone).toHaveBeenCalledTimes(2);
+  });
+});
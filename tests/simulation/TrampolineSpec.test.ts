@@ -0,0 +1,65 @@
+import { TrampolineSimulation } from '../../src/simulation/TrampolineSimulation';
+import {
+  COMPETITION_TRAMPOLINE,
+  DOUBLE_MINI_TRAMPOLINE,
+  ROUND_BACKYARD_TRAMPOLINE,
+  TrampolineSpec,
+} from '../../src/simulation/TrampolineSpec';
+import { Simulation } from '../../src/simulation/Simulation';
+import { DEFAULT_CHARACTER_STATS } from '../../src/simulation/CharacterStats';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+describe('TrampolineSpec', () => {
+  test('should cover a round bed out to its radius', () => {
+    const trampoline = new TrampolineSimulation(ROUND_BACKYARD_TRAMPOLINE);
+
+    expect(trampoline.isOverBed(0, 2.7)).toBe(true);
+    expect(trampoline.isOverBed(2, 2)).toBe(false);
+  });
+
+  test('should cover a rectangular bed into its corners', () => {
+    const trampoline = new TrampolineSimulation(COMPETITION_TRAMPOLINE);
+
+    // Inside the corner a round bed of the same length would miss
+    expect(trampoline.isOverBed(2.5, 1.2)).toBe(true);
+    expect(trampoline.isOverBed(0, 1.4)).toBe(false);
+    expect(trampoline.isOverBed(2.7, 0)).toBe(false);
+    expect(trampoline.getHalfExtents()).toEqual({ x: 2.6, z: 1.3 });
+  });
+
+  test('should sink less into a stiffer bed', () => {
+    const maxDepth = (spec: TrampolineSpec): number => {
+      const trampoline = new TrampolineSimulation(spec);
+      trampoline.land(8);
+      let depth = 0;
+      for (let i = 0; i < 60; i++) {
+        trampoline.step(FIXED_TIMESTEP);
+        depth = Math.max(depth, trampoline.getCompression());
+      }
+      return depth;
+    };
+
+    expect(maxDepth(DOUBLE_MINI_TRAMPOLINE)).toBeLessThan(
+      maxDepth(ROUND_BACKYARD_TRAMPOLINE)
+    );
+  });
+
+  test('should drop a jumper drifting sideways off a narrow bed', () => {
+    const landsOnBed = (spec: TrampolineSpec): boolean => {
+      const simulation = new Simulation(DEFAULT_CHARACTER_STATS, spec);
+      simulation.character.setHorizontalVelocity(0, 1);
+      for (let i = 0; i < 600; i++) {
+        simulation.step(FIXED_TIMESTEP, {
+          rotation: { x: 0, y: 0 },
+          shape: 'straight',
+        });
+        if (simulation.trampoline.hasJumper()) return true;
+        if (simulation.getCrash()) return false;
+      }
+      return false;
+    };
+
+    expect(landsOnBed(ROUND_BACKYARD_TRAMPOLINE)).toBe(true);
+    expect(landsOnBed(DOUBLE_MINI_TRAMPOLINE)).toBe(false);
+  });
+});
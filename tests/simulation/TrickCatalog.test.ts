@@ -0,0 +1,54 @@
+import {
+  findDrop,
+  findTrick,
+  getTrickDefinition,
+  TRICK_CATALOG,
+} from '../../src/simulation/TrickCatalog';
+import { ScoreKeeper } from '../../src/simulation/ScoreKeeper';
+
+describe('TrickCatalog', () => {
+  test('should give every trick its own name', () => {
+    const names = TRICK_CATALOG.map((trick) => trick.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  test('should prefer the entry for the exact shape', () => {
+    const jump = { somersaults: 1, direction: 'back' as const, halfTwists: 0 };
+
+    expect(findTrick({ ...jump, shape: 'pike' })?.name).toBe('pike flip');
+    expect(findTrick({ ...jump, shape: 'straight' })?.name).toBe('flip');
+  });
+
+  test('should only match twisting somersaults the right way round', () => {
+    const jump = { somersaults: 1, halfTwists: 1, shape: 'straight' };
+
+    expect(findTrick({ ...jump, direction: 'front' })?.name).toBe('barani');
+    expect(findTrick({ ...jump, direction: 'back' })).toBeNull();
+  });
+
+  test('should find the drop for each landing position', () => {
+    expect(findDrop('seat')?.name).toBe('seat drop');
+    expect(findDrop('feet')).toBeNull();
+  });
+
+  test('should score a trick from its catalog entry', () => {
+    const points = new ScoreKeeper().calculatePoints(
+      {
+        type: 'custom flip',
+        rotation: 360,
+        shape: 'custom',
+        difficultyMultiplier: 1,
+      },
+      1,
+      60
+    );
+
+    // Base points with the novelty bonus for a first attempt
+    expect(points).toBe(
+      Math.round((getTrickDefinition('custom flip').basePoints * 1.2) / 10) * 10
+    );
+    expect(() => getTrickDefinition('quadruple twist')).toThrow(
+      /Unknown trick/
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { Trick } from '../../src/simulation/CharacterSimulation';
+import {
+  formatTrickNotation,
+  matchesSkill,
+  parseTrickNotation,
+  TrickNotationError,
+} from '../../src/simulation/TrickNotation';
+
+const doubleBaraniOut: Trick = {
+  type: 'double flip',
+  rotation: 720,
+  twist: 180,
+  halfTwistsBySomersault: [0, 1],
+  shape: 'pike',
+  difficultyMultiplier: 1,
+};
+
+describe('TrickNotation', () => {
+  test('should write tricks the standard way', () => {
+    expect(formatTrickNotation(doubleBaraniOut)).toBe('801<');
+    expect(
+      formatTrickNotation({
+        type: 'tuck flip',
+        rotation: 360,
+        shape: 'tuck',
+        difficultyMultiplier: 1,
+      })
+    ).toBe('40o');
+    expect(
+      formatTrickNotation({
+        type: 'half twist',
+        rotation: 0,
+        twist: 180,
+        shape: 'custom',
+        difficultyMultiplier: 1,
+      })
+    ).toBe('01');
+    expect(
+      formatTrickNotation({
+        type: 'seat drop',
+        rotation: 0,
+        difficultyMultiplier: 1,
+      })
+    ).toBeNull();
+  });
+
+  test('should read skills back', () => {
+    expect(parseTrickNotation('42/')).toEqual({
+      quarterSomersaults: 4,
+      halfTwistsBySomersault: [2],
+      shape: 'straight',
+    });
+    expect(parseTrickNotation('12001o')).toEqual({
+      quarterSomersaults: 12,
+      halfTwistsBySomersault: [0, 0, 1],
+      shape: 'tuck',
+    });
+    expect(parseTrickNotation('01').shape).toBeNull();
+  });
+
+  test('should reject text that is not a skill', () => {
+    expect(() => parseTrickNotation('barani')).toThrow(TrickNotationError);
+    expect(() => parseTrickNotation('8<')).toThrow(/one twist digit/);
+    expect(() => parseTrickNotation('00')).toThrow(/no somersault/);
+  });
+
+  test('should match a trick against the skill practised', () => {
+    expect(matchesSkill(doubleBaraniOut, parseTrickNotation('801<'))).toBe(
+      true
+    );
+    expect(matchesSkill(doubleBaraniOut, parseTrickNotation('801'))).toBe(true);
+    expect(matchesSkill(doubleBaraniOut, parseTrickNotation('810<'))).toBe(
+      false
+    );
+    expect(matchesSkill(doubleBaraniOut, parseTrickNotation('801o'))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { CharacterSimulation } from '../../src/simulation/CharacterSimulation';
+import {
+  calculateTwistInertia,
+  STRAIGHT_TWIST_INERTIA,
+} from '../../src/simulation/Inertia';
+import { formatTrickNotation } from '../../src/simulation/TrickNotation';
+import { FIXED_TIMESTEP } from '../../src/game/FixedTimestep';
+
+// Push toward a target angle for the first half of the way, then push
+// against the spin to bring it to a stop there
+const drive = (angle: number, speed: number, target: number): number => {
+  const direction = Math.sign(target);
+  if (Math.abs(angle) < Math.abs(target) / 2) return direction;
+  return speed * direction > 0 ? -direction : 0;
+};
+
+// Turn the character by the target angles and stop the spin
+const perform = (somersault: number, twist: number): CharacterSimulation => {
+  const character = new CharacterSimulation();
+  character.bounce(15);
+
+  for (let tick = 0; tick < 600; tick++) {
+    const x = drive(
+      character.getNetSomersault(),
+      character.getRotationSpeed(),
+      somersault
+    );
+    const y = drive(character.getNetTwist(), character.getTwistSpeed(), twist);
+    if (x === 0 && y === 0) break;
+    character.step(FIXED_TIMESTEP, { x, y }, 'straight');
+  }
+
+  return character;
+};
+
+describe('Twisting', () => {
+  test('should name a full twist without somersault', () => {
+    const trick = perform(0, Math.PI * 2).getCurrentTrick();
+    expect(trick?.type).toBe('full twist');
+    expect(trick?.twist).toBe(360);
+  });
+
+  test('should name a front somersault with a half twist a barani', () => {
+    const trick = perform(Math.PI * 2, Math.PI).getCurrentTrick();
+    expect(trick?.type).toBe('barani');
+    expect(trick?.rotation).toBe(360);
+    expect(trick && formatTrickNotation(trick)).toBe('41/');
+  });
+
+  test('should name a back somersault with a full twist a back full', () => {
+    const trick = perform(-Math.PI * 2, Math.PI * 2).getCurrentTrick();
+    expect(trick?.type).toBe('back full');
+  });
+
+  test('should write the twist of a double somersault in its notation', () => {
+    // A full twist in each somersault of a back double
+    const character = new CharacterSimulation();
+    character.bounce(15);
+    let secondTwistStart: number | null = null;
+
+    for (let tick = 0; tick < 900; tick++) {
+      const x = drive(
+        character.getNetSomersault(),
+        character.getRotationSpeed(),
+        -Math.PI * 4
+      );
+      const isFirst = Math.abs(character.getNetSomersault()) < Math.PI * 2;
+      if (!isFirst && secondTwistStart === null) {
+        secondTwistStart = character.getNetTwist();
+      }
+      const y = drive(
+        character.getNetTwist() - (secondTwistStart ?? 0),
+        character.getTwistSpeed(),
+        Math.PI * 2
+      );
+      if (!isFirst && x === 0 && y === 0) break;
+      character.step(FIXED_TIMESTEP, { x, y }, 'straight');
+    }
+
+    const trick = character.getCurrentTrick();
+    expect(trick?.type).toBe('double flip');
+    expect(trick?.twist).toBe(720);
+    expect(trick && formatTrickNotation(trick)).toBe('822/');
+  });
+
+  test('should twist slower with the arms held out wide', () => {
+    const wideArms = {
+      leftArmLegPath: [
+        { x: 0.4, y: 1.4 },
+        { x: 0.9, y: 1.4 },
+        { x: 1.4, y: 1.4 },
+        { x: 0.2, y: 0.5 },
+        { x: 0.2, y: 0.0 },
+        { x: 0.2, y: -0.6 },
+      ],
+      rightArmLegPath: [
+        { x: -0.4, y: 1.4 },
+        { x: -0.9, y: 1.4 },
+        { x: -1.4, y: 1.4 },
+        { x: -0.2, y: 0.5 },
+        { x: -0.2, y: 0.0 },
+        { x: -0.2, y: -0.6 },
+      ],
+    };
+    expect(calculateTwistInertia(wideArms)).toBeGreaterThan(
+      STRAIGHT_TWIST_INERTIA
+    );
+
+    const character = new CharacterSimulation();
+    character.bounce(15);
+    for (let i = 0; i < 20; i++) {
+      character.step(FIXED_TIMESTEP, { x: 0, y: 1 }, 'straight');
+    }
+    const straightSpeed = character.getTwistSpeed();
+
+    // Coast into the wide shape
+    character.setCustomShape(wideArms);
+    while (character.getShapeTransitionProgress() !== null) {
+      character.step(FIXED_TIMESTEP, { x: 0, y: 0 }, 'custom');
+    }
+    expect(character.getTwistSpeed()).toBeLessThan(straightSpeed);
+  });
+});